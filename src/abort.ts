@@ -0,0 +1,36 @@
+import { GenericAbortSignal } from "axios";
+
+// Cancels every in-flight request tagged with it. Stays usable after cancelling.
+export class AbortGroup {
+  private controllers = new Set<AbortController>();
+
+  // Number of requests in the group that are still in flight
+  get size(): number {
+    return this.controllers.size;
+  }
+
+  cancel(): void {
+    for (const controller of Array.from(this.controllers)) controller.abort();
+  }
+
+  /** @internal Returns a function that removes the controller again */
+  track(controller: AbortController): () => void {
+    this.controllers.add(controller);
+    return () => this.controllers.delete(controller);
+  }
+}
+
+// Abort `controller` when `signal` aborts. Returns a function that removes the listener.
+export function linkSignal(
+  signal: GenericAbortSignal | undefined,
+  controller: AbortController,
+): () => void {
+  if (!signal) return () => undefined;
+  const abort = () => controller.abort();
+  if (signal.aborted) {
+    abort();
+    return () => undefined;
+  }
+  signal.addEventListener?.("abort", abort);
+  return () => signal.removeEventListener?.("abort", abort);
+}
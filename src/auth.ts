@@ -0,0 +1,92 @@
+import { InternalAxiosRequestConfig } from "axios";
+
+export interface AuthContext {
+  token: string | null; // Token set through setAuthToken()
+  tokenKey: string; // Configured authTokenKey
+  tokenPrefix: string; // Configured authTokenPrefix
+}
+
+// Header and query parameter names a strategy puts secrets in, for redaction in logs and fixtures
+export interface AuthSecrets {
+  headers?: string[];
+  query?: string[];
+}
+
+export interface AuthStrategy {
+  apply(
+    config: InternalAxiosRequestConfig,
+    context: AuthContext,
+  ): void | Promise<void>;
+  secrets?: AuthSecrets; // Besides Authorization and the authTokenKey header, which are always redacted
+}
+
+export function toBase64(value: string): string {
+  if (typeof Buffer !== "undefined") {
+    return Buffer.from(value, "utf8").toString("base64");
+  }
+  return btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+}
+
+// Token in a header, e.g. `Authorization: Bearer <token>` (the default strategy)
+export function bearerAuth(
+  options: { headerName?: string; prefix?: string } = {},
+): AuthStrategy {
+  return {
+    secrets: { headers: options.headerName ? [options.headerName] : [] },
+    apply(config, context) {
+      if (!context.token) return;
+      const headerName = options.headerName ?? context.tokenKey;
+      const prefix = options.prefix ?? context.tokenPrefix;
+      config.headers.set(headerName, `${prefix}${context.token}`);
+    },
+  };
+}
+
+// HTTP basic auth with fixed credentials
+export function basicAuth(credentials: {
+  username: string;
+  password: string;
+}): AuthStrategy {
+  const encoded = toBase64(`${credentials.username}:${credentials.password}`);
+  return {
+    apply(config) {
+      config.headers.set("Authorization", `Basic ${encoded}`);
+    },
+  };
+}
+
+// API key sent in a header or in the query string. Falls back to the stored token.
+export function apiKeyAuth(options: {
+  in: "header" | "query";
+  name: string;
+  key?: string;
+}): AuthStrategy {
+  return {
+    secrets:
+      options.in === "header"
+        ? { headers: [options.name] }
+        : { query: [options.name] },
+    apply(config, context) {
+      const key = options.key ?? context.token;
+      if (!key) return;
+
+      if (options.in === "header") {
+        config.headers.set(options.name, key);
+      } else if (config.params instanceof URLSearchParams) {
+        config.params.set(options.name, key);
+      } else {
+        config.params = { ...config.params, [options.name]: key };
+      }
+    },
+  };
+}
+
+export function customAuth(
+  apply: (
+    config: InternalAxiosRequestConfig,
+    context: AuthContext,
+  ) => void | Promise<void>,
+  secrets?: AuthSecrets,
+): AuthStrategy {
+  return { apply, secrets };
+}
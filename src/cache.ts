@@ -0,0 +1,267 @@
+import { AxiosResponse } from "axios";
+
+export interface CacheEntry {
+  key: string;
+  data: any;
+  statusCode: number;
+  message?: string;
+  etag?: string;
+  storedAt: number; // Epoch ms
+  expiresAt: number; // Fresh until (epoch ms)
+  staleUntil: number; // May be served while revalidating until (epoch ms)
+}
+
+// Storage backend for cached responses. Methods may be sync or async.
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
+}
+
+export interface CacheConfig {
+  ttl?: number; // Time in ms a response stays fresh (default: 60000)
+  staleWhileRevalidate?: number; // Time in ms a stale response may be served while refetching (default: 0)
+  store?: CacheStore; // Where responses are kept (default: in-memory LRU)
+  methods?: string[]; // Methods that are cached (default: ['GET'])
+  respectCacheControl?: boolean; // Honor Cache-Control response headers (default: true)
+}
+
+export type ResolvedCacheConfig = Required<CacheConfig>;
+
+// In-memory store that evicts the least recently used entry once full
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number = 500) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move to the end so it becomes the most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+}
+
+// Stores each entry as a JSON file in a directory, for Node processes
+export class FileCacheStore implements CacheStore {
+  constructor(private directory: string) {}
+
+  private async fileFor(key: string): Promise<string> {
+    const crypto = await import("crypto");
+    const path = await import("path");
+    const hash = crypto.createHash("sha256").update(key).digest("hex");
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const fs = await import("fs");
+    try {
+      const contents = await fs.promises.readFile(
+        await this.fileFor(key),
+        "utf8",
+      );
+      return JSON.parse(contents);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const fs = await import("fs");
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(await this.fileFor(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import("fs");
+    try {
+      await fs.promises.unlink(await this.fileFor(key));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    const fs = await import("fs");
+    const path = await import("path");
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const keys: string[] = [];
+    for (const file of files.filter((f) => f.endsWith(".json"))) {
+      const contents = await fs.promises.readFile(
+        path.join(this.directory, file),
+        "utf8",
+      );
+      keys.push((JSON.parse(contents) as CacheEntry).key);
+    }
+    return keys;
+  }
+}
+
+// Merge global and per-request cache options. `false` on either level disables caching.
+export function resolveCacheConfig(
+  globalCache: CacheConfig | boolean | undefined,
+  requestCache: CacheConfig | boolean | undefined,
+  defaultStore: CacheStore,
+): ResolvedCacheConfig | null {
+  if (requestCache === false) return null;
+  if (requestCache === undefined && !globalCache) return null;
+
+  return {
+    ttl: 60000,
+    staleWhileRevalidate: 0,
+    store: defaultStore,
+    methods: ["GET"],
+    respectCacheControl: true,
+    ...(typeof globalCache === "object" ? globalCache : {}),
+    ...(typeof requestCache === "object" ? requestCache : {}),
+  };
+}
+
+// 53-bit string hash (cyrb53), so keys never contain auth tokens
+function hashIdentity(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// `identity` separates entries for different users, see authIdentity()
+export function createCacheKey(
+  method: string,
+  url: string,
+  params?: any,
+  identity?: string,
+): string {
+  const entries: [string, string][] =
+    params instanceof URLSearchParams
+      ? Array.from(params.entries())
+      : Object.entries(params || {})
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => [
+            key,
+            typeof value === "object" ? JSON.stringify(value) : String(value),
+          ]);
+
+  const query = new URLSearchParams(
+    entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+  ).toString();
+  const key = `${method.toUpperCase()} ${url}${query ? `?${query}` : ""}`;
+  return identity === undefined ? key : `${key} ${hashIdentity(identity)}`;
+}
+
+// Match a cache key's URL against a glob-style string (`*` wildcards) or a RegExp.
+// With a baseURL, the URL relative to it is matched as well.
+export function matchesCacheKey(
+  key: string,
+  pattern: string | RegExp,
+  baseURL?: string,
+): boolean {
+  const url = key.split(" ")[1] ?? "";
+  const base = baseURL?.replace(/\/+$/, "");
+  const urls =
+    base && url.startsWith(`${base}/`) ? [url, url.slice(base.length)] : [url];
+  if (pattern instanceof RegExp) return urls.some((u) => pattern.test(u));
+
+  const regex = new RegExp(
+    `^${pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+  );
+  return urls.some((u) => regex.test(u));
+}
+
+export interface CacheControl {
+  maxAge?: number; // Seconds
+  staleWhileRevalidate?: number; // Seconds
+  noStore: boolean;
+  noCache: boolean;
+}
+
+export function parseCacheControl(header: unknown): CacheControl {
+  const result: CacheControl = { noStore: false, noCache: false };
+  if (typeof header !== "string") return result;
+
+  for (const directive of header.toLowerCase().split(",")) {
+    const [name, value] = directive.trim().split("=");
+    const seconds = value !== undefined ? parseInt(value, 10) : NaN;
+
+    if (name === "no-store") result.noStore = true;
+    else if (name === "no-cache") result.noCache = true;
+    else if (name === "max-age" && !isNaN(seconds)) result.maxAge = seconds;
+    else if (name === "stale-while-revalidate" && !isNaN(seconds)) {
+      result.staleWhileRevalidate = seconds;
+    }
+  }
+  return result;
+}
+
+// Build a cache entry from a response, or null if it must not be stored
+export function createCacheEntry(
+  key: string,
+  response: Pick<AxiosResponse, "data" | "status" | "statusText" | "headers">,
+  cache: ResolvedCacheConfig,
+  now: number = Date.now(),
+): CacheEntry | null {
+  const cacheControl = cache.respectCacheControl
+    ? parseCacheControl(response.headers?.["cache-control"])
+    : { noStore: false, noCache: false };
+  if (cacheControl.noStore) return null;
+
+  const ttl = cacheControl.noCache
+    ? 0
+    : cacheControl.maxAge !== undefined
+      ? cacheControl.maxAge * 1000
+      : cache.ttl;
+  const staleWhileRevalidate =
+    cacheControl.staleWhileRevalidate !== undefined
+      ? cacheControl.staleWhileRevalidate * 1000
+      : cache.staleWhileRevalidate;
+
+  return {
+    key,
+    data: response.data,
+    statusCode: response.status,
+    message: response.statusText,
+    etag: response.headers?.etag,
+    storedAt: now,
+    expiresAt: now + ttl,
+    staleUntil: now + ttl + (cacheControl.noCache ? 0 : staleWhileRevalidate),
+  };
+}
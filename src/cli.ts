@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+import { Command } from "commander";
+import { generateCommand } from "./commands/generate";
+import { initCommand } from "./commands/init";
+import { methodCommands, requestCommand } from "./commands/request";
+import { runCommand } from "./commands/run";
+import { VERSION } from "./index";
+
+const program = new Command("axios-wrapper")
+  .description("Command line tools for better-axios")
+  .version(VERSION)
+  .addCommand(requestCommand())
+  .addCommand(generateCommand())
+  .addCommand(initCommand())
+  .addCommand(runCommand());
+
+for (const command of methodCommands()) {
+  program.addCommand(command);
+}
+
+program.parseAsync(process.argv);
@@ -0,0 +1,386 @@
+import yaml from "js-yaml";
+import { AxiosResponse } from "axios";
+import { AxiosApi, HttpMethod } from "./wrapper";
+import { isApiError } from "./errors";
+
+// Operators for an assertion. Any other value is compared with `equals`.
+export interface AssertionOperators {
+  equals?: unknown;
+  notEquals?: unknown;
+  exists?: boolean;
+  contains?: unknown; // Array item or substring
+  matches?: string; // Regular expression
+  type?: "string" | "number" | "boolean" | "object" | "array" | "null";
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export interface CollectionRequest {
+  name: string;
+  method?: HttpMethod; // Default: 'GET'
+  url: string;
+  headers?: Record<string, string>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  useAuth?: boolean;
+  timeout?: number;
+  extract?: Record<string, string>; // Variable name -> path, e.g. `token: body.token`
+  setAuthToken?: string; // Template for the token to use from here on, e.g. "{{token}}"
+  assert?: Record<string, unknown>; // Path -> value or AssertionOperators, e.g. `status: 200`
+}
+
+export interface Collection {
+  name?: string;
+  baseURL?: string;
+  timeout?: number;
+  headers?: Record<string, string>;
+  variables?: Record<string, unknown>;
+  environments?: Record<string, Record<string, unknown>>; // Variable overrides per environment
+  requests: CollectionRequest[];
+}
+
+export interface RunCollectionOptions {
+  env?: string; // Environment from `collection.environments`
+  variables?: Record<string, unknown>; // Overrides collection and environment variables
+  bail?: boolean; // Skip the remaining requests after the first failure
+  api?: AxiosApi; // Run through an existing client instead of a new one
+}
+
+export interface RequestResult {
+  name: string;
+  method: HttpMethod;
+  url: string;
+  statusCode?: number;
+  duration: number; // Milliseconds
+  passed: boolean;
+  skipped: boolean;
+  failures: string[]; // Failed assertions
+  error?: string; // Set when the request could not be completed
+}
+
+export interface CollectionReport {
+  name: string;
+  results: RequestResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number; // Milliseconds
+  timestamp: Date;
+}
+
+// What extraction and assertion paths are evaluated against
+interface ResponseSnapshot {
+  status: number;
+  headers: Record<string, unknown>;
+  body: unknown;
+}
+
+export async function loadCollection(file: string): Promise<Collection> {
+  const fs = await import("fs");
+  const source = await fs.promises.readFile(file, "utf8");
+  const collection = (
+    /\.json$/i.test(file) ? JSON.parse(source) : yaml.load(source)
+  ) as Collection;
+
+  if (!collection || !Array.isArray(collection.requests)) {
+    throw new Error(`${file} is not a collection: missing "requests"`);
+  }
+  return collection;
+}
+
+// Replace `{{name}}` placeholders. A string that is only a placeholder keeps the variable's type.
+export function interpolate(
+  value: unknown,
+  variables: Record<string, unknown>,
+): any {
+  if (typeof value === "string") {
+    const lookup = (name: string) => {
+      if (!(name in variables)) throw new Error(`Unknown variable "${name}"`);
+      return variables[name];
+    };
+    const whole = /^\{\{\s*([\w.-]+)\s*\}\}$/.exec(value);
+    if (whole) return lookup(whole[1]);
+    return value.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name: string) =>
+      String(lookup(name)),
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolate(item, variables));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        interpolate(item, variables),
+      ]),
+    );
+  }
+  return value;
+}
+
+// "body.items[0].id" -> ["body", "items", "0", "id"]
+function getPath(snapshot: ResponseSnapshot, pathExpression: string): unknown {
+  const [root, ...rest] = pathExpression
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .filter(Boolean);
+
+  if (root === "headers") {
+    return snapshot.headers[rest.join(".").toLowerCase()];
+  }
+  return rest.reduce<any>(
+    (value, key) => (value == null ? undefined : value[key]),
+    (snapshot as any)[root],
+  );
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+const OPERATORS = [
+  "equals",
+  "notEquals",
+  "exists",
+  "contains",
+  "matches",
+  "type",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+];
+
+// Returns a failure message, or null when the assertion holds
+function checkAssertion(
+  pathExpression: string,
+  actual: unknown,
+  expected: unknown,
+): string | null {
+  const isOperatorObject =
+    expected !== null &&
+    typeof expected === "object" &&
+    !Array.isArray(expected) &&
+    Object.keys(expected).every((key) => OPERATORS.includes(key));
+  const checks: Record<string, unknown> = isOperatorObject
+    ? (expected as Record<string, unknown>)
+    : { equals: expected };
+  const show = (value: unknown) => JSON.stringify(value) ?? "undefined";
+
+  for (const [operator, value] of Object.entries(checks)) {
+    let ok: boolean;
+    switch (operator) {
+      case "equals":
+        ok = isEqual(actual, value);
+        break;
+      case "notEquals":
+        ok = !isEqual(actual, value);
+        break;
+      case "exists":
+        ok = (actual !== undefined && actual !== null) === value;
+        break;
+      case "contains":
+        ok = Array.isArray(actual)
+          ? actual.some((item) => isEqual(item, value))
+          : typeof actual === "string" && actual.includes(String(value));
+        break;
+      case "matches":
+        ok = new RegExp(String(value)).test(String(actual));
+        break;
+      case "type":
+        ok = typeOf(actual) === value;
+        break;
+      default: {
+        const [a, b] = [Number(actual), Number(value)];
+        ok =
+          typeof actual === "number" &&
+          (operator === "gt"
+            ? a > b
+            : operator === "gte"
+              ? a >= b
+              : operator === "lt"
+                ? a < b
+                : a <= b);
+      }
+    }
+    if (!ok) {
+      return `${pathExpression}: expected ${operator} ${show(value)}, got ${show(actual)}`;
+    }
+  }
+  return null;
+}
+
+// Execute the requests in order, sharing variables and the auth token between them
+export async function runCollection(
+  collection: Collection,
+  options: RunCollectionOptions = {},
+): Promise<CollectionReport> {
+  if (options.env && !collection.environments?.[options.env]) {
+    throw new Error(`Unknown environment "${options.env}"`);
+  }
+
+  const variables: Record<string, unknown> = {
+    ...collection.variables,
+    ...(options.env ? collection.environments![options.env] : {}),
+    ...options.variables,
+  };
+  const api = options.api ?? new AxiosApi({ baseURL: "" });
+
+  // ApiResponse has no headers, so keep the raw response for extraction
+  const last: { response?: AxiosResponse } = {};
+  const interceptor = api
+    .getAxiosInstance()
+    .interceptors.response.use((response) => (last.response = response));
+
+  const startedAt = Date.now();
+  const results: RequestResult[] = [];
+  let failed = false;
+
+  try {
+    for (const request of collection.requests) {
+      const method = (request.method ?? "GET").toUpperCase() as HttpMethod;
+      const result: RequestResult = {
+        name: request.name,
+        method,
+        url: request.url,
+        duration: 0,
+        passed: false,
+        skipped: false,
+        failures: [],
+      };
+      results.push(result);
+
+      if (failed && options.bail) {
+        result.skipped = true;
+        continue;
+      }
+
+      const requestStartedAt = Date.now();
+      try {
+        result.url = interpolate(request.url, variables);
+
+        let snapshot: ResponseSnapshot;
+        try {
+          const response = await api.request(method, result.url, {
+            baseURL: interpolate(collection.baseURL, variables),
+            timeout: request.timeout ?? collection.timeout,
+            headers: interpolate(
+              { ...collection.headers, ...request.headers },
+              variables,
+            ),
+            params: interpolate(request.query, variables),
+            data: interpolate(request.body, variables),
+            useAuth: request.useAuth,
+            skipGlobalHandlers: true,
+          });
+          snapshot = {
+            status: response.statusCode,
+            headers: { ...last.response?.headers },
+            body: response.data,
+          };
+        } catch (error) {
+          // Error statuses are still responses that can be asserted on
+          if (!isApiError(error) || !error.statusCode) throw error;
+          snapshot = {
+            status: error.statusCode,
+            headers: { ...error.headers },
+            body: error.data,
+          };
+        }
+        result.statusCode = snapshot.status;
+
+        for (const [name, pathExpression] of Object.entries(
+          request.extract ?? {},
+        )) {
+          variables[name] = getPath(snapshot, pathExpression);
+        }
+        if (request.setAuthToken) {
+          await api.setAuthToken(
+            String(interpolate(request.setAuthToken, variables)),
+          );
+        }
+
+        // Without assertions, any 2xx response passes
+        const assertions = request.assert ?? { status: { gte: 200, lt: 300 } };
+        for (const [pathExpression, expected] of Object.entries(assertions)) {
+          const failure = checkAssertion(
+            pathExpression,
+            getPath(snapshot, pathExpression),
+            interpolate(expected, variables),
+          );
+          if (failure) result.failures.push(failure);
+        }
+        result.passed = result.failures.length === 0;
+      } catch (error: any) {
+        result.error = error?.message ?? String(error);
+      }
+
+      result.duration = Date.now() - requestStartedAt;
+      failed ||= !result.passed;
+    }
+  } finally {
+    api.getAxiosInstance().interceptors.response.eject(interceptor);
+  }
+
+  return {
+    name: collection.name ?? "Collection",
+    results,
+    passed: results.filter((result) => result.passed).length,
+    failed: results.filter((result) => !result.passed && !result.skipped)
+      .length,
+    skipped: results.filter((result) => result.skipped).length,
+    duration: Date.now() - startedAt,
+    timestamp: new Date(startedAt),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// JUnit XML as understood by most CI systems
+export function toJUnitXml(report: CollectionReport): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const name = escapeXml(report.name);
+  const errors = report.results.filter((result) => result.error).length;
+
+  const testCases = report.results.map((result) => {
+    const attributes = `name="${escapeXml(result.name)}" classname="${name}" time="${seconds(result.duration)}"`;
+    let body = "";
+    if (result.skipped) {
+      body = `      <skipped/>\n`;
+    } else if (result.error) {
+      body = `      <error message="${escapeXml(result.error)}"/>\n`;
+    } else if (result.failures.length) {
+      body = `      <failure message="${escapeXml(result.failures[0])}">${escapeXml(
+        result.failures.join("\n"),
+      )}</failure>\n`;
+    }
+    return body
+      ? `    <testcase ${attributes}>\n${body}    </testcase>`
+      : `    <testcase ${attributes}/>`;
+  });
+
+  const counts = `tests="${report.results.length}" failures="${report.failed - errors}" errors="${errors}" skipped="${report.skipped}" time="${seconds(report.duration)}"`;
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="${name}" ${counts}>`,
+    `  <testsuite name="${name}" ${counts} timestamp="${report.timestamp.toISOString()}">`,
+    ...testCases,
+    `  </testsuite>`,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+}
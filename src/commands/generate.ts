@@ -0,0 +1,70 @@
+import { watch } from "fs";
+import path from "path";
+import chalk from "chalk";
+import { Command } from "commander";
+import { generateClient, loadSpec, writeGeneratedFiles } from "../openapi";
+
+interface GenerateCommandOptions {
+  spec: string;
+  out: string;
+  name?: string;
+  importPath?: string;
+  watch?: boolean;
+}
+
+async function generate(options: GenerateCommandOptions): Promise<void> {
+  const spec = await loadSpec(options.spec);
+  const { files, warnings } = generateClient(spec, {
+    className: options.name,
+    importPath: options.importPath,
+    specName: path.basename(options.spec),
+  });
+  await writeGeneratedFiles(options.out, files);
+
+  for (const warning of warnings) {
+    console.warn(chalk.yellow(`⚠ ${warning}`));
+  }
+  console.log(
+    chalk.green(`✔ Generated ${files.length} files in ${options.out}`),
+  );
+}
+
+// Regenerate whenever the spec changes. Watches the directory so editors
+// that replace the file on save are picked up too.
+function watchSpec(options: GenerateCommandOptions): void {
+  const specFile = path.basename(options.spec);
+  let timer: NodeJS.Timeout | undefined;
+
+  watch(path.dirname(options.spec), (_, filename) => {
+    if (filename !== specFile) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      generate(options).catch((error) =>
+        console.error(chalk.red(`✖ ${error.message}`)),
+      );
+    }, 100);
+  });
+  console.log(chalk.cyan(`Watching ${options.spec} for changes...`));
+}
+
+export function generateCommand(): Command {
+  return new Command("generate")
+    .description("Generate a typed client from an OpenAPI 3.x spec")
+    .requiredOption("-s, --spec <path>", "OpenAPI spec file (YAML or JSON)")
+    .requiredOption("-o, --out <dir>", "Output directory")
+    .option("-n, --name <name>", "Client class name (default: from info.title)")
+    .option("--import-path <module>", "Module to import AxiosApi from")
+    .option("-w, --watch", "Regenerate when the spec changes")
+    .action(async (options: GenerateCommandOptions) => {
+      try {
+        await generate(options);
+      } catch (error: any) {
+        console.error(chalk.red(`✖ ${error.message}`));
+        if (!options.watch) {
+          process.exitCode = 1;
+          return;
+        }
+      }
+      if (options.watch) watchSpec(options);
+    });
+}
@@ -0,0 +1,259 @@
+import { promises as fs } from "fs";
+import path from "path";
+import chalk from "chalk";
+import { Command } from "commander";
+import inquirer from "inquirer";
+import {
+  AuthScheme,
+  ErrorHandlingStyle,
+  Framework,
+  ProjectInfo,
+  ScaffoldOptions,
+  detectProject,
+  scaffoldFiles,
+} from "../scaffold";
+
+interface InitCommandOptions {
+  dir?: string;
+  framework?: Framework;
+  auth?: AuthScheme;
+  env?: string[]; // "name=url" pairs
+  errorHandling?: ErrorHandlingStyle;
+  importPath?: string;
+  yes?: boolean; // Accept defaults instead of prompting
+  force?: boolean; // Overwrite existing files without asking
+}
+
+const FRAMEWORKS: Framework[] = ["node", "react", "next"];
+const AUTH_SCHEMES: AuthScheme[] = [
+  "bearer",
+  "apiKey",
+  "basic",
+  "oauth2",
+  "none",
+];
+const ERROR_STYLES: ErrorHandlingStyle[] = ["toast", "log", "none"];
+
+const DEFAULT_ENVIRONMENTS: Record<string, string> = {
+  development: "http://localhost:3000",
+  production: "https://api.example.com",
+};
+
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+function parseEnvironments(pairs: string[]): Record<string, string> {
+  return Object.fromEntries(
+    pairs.map((pair) => {
+      const index = pair.indexOf("=");
+      if (index <= 0) throw new Error(`Invalid environment "${pair}"`);
+      return [pair.slice(0, index), pair.slice(index + 1)];
+    }),
+  );
+}
+
+function oneOf<T extends string>(
+  value: T | undefined,
+  allowed: T[],
+  name: string,
+) {
+  if (value !== undefined && !allowed.includes(value)) {
+    throw new Error(
+      `Unknown ${name} "${value}", expected ${allowed.join(", ")}`,
+    );
+  }
+  return value;
+}
+
+async function readProject(): Promise<ProjectInfo> {
+  try {
+    const packageJson = await fs.readFile(
+      path.join(process.cwd(), "package.json"),
+      "utf8",
+    );
+    return detectProject(JSON.parse(packageJson));
+  } catch {
+    return detectProject({});
+  }
+}
+
+async function askEnvironments(): Promise<Record<string, string>> {
+  const { names } = await inquirer.prompt([
+    {
+      type: "input",
+      name: "names",
+      message: "Environments (comma separated)",
+      default: Object.keys(DEFAULT_ENVIRONMENTS).join(","),
+    },
+  ]);
+
+  const environments: Record<string, string> = {};
+  for (const name of (names as string).split(",").map((n) => n.trim())) {
+    if (!name) continue;
+    const { url } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "url",
+        message: `Base URL for ${name}`,
+        default:
+          DEFAULT_ENVIRONMENTS[name] ?? `https://${name}.api.example.com`,
+      },
+    ]);
+    environments[name] = url;
+  }
+  return environments;
+}
+
+async function resolveAnswers(
+  options: InitCommandOptions,
+  project: ProjectInfo,
+  interactive: boolean,
+): Promise<ScaffoldOptions & { dir: string }> {
+  const given = {
+    framework: oneOf(options.framework, FRAMEWORKS, "framework"),
+    auth: oneOf(options.auth, AUTH_SCHEMES, "auth scheme"),
+    errorHandling: oneOf(
+      options.errorHandling,
+      ERROR_STYLES,
+      "error handling style",
+    ),
+  };
+
+  const answers: Partial<ScaffoldOptions & { dir: string }> = interactive
+    ? await inquirer.prompt([
+        {
+          type: "list",
+          name: "framework",
+          message: "Framework",
+          choices: FRAMEWORKS,
+          default: project.framework,
+          when: !given.framework,
+        },
+        {
+          type: "list",
+          name: "auth",
+          message: "Auth scheme",
+          choices: AUTH_SCHEMES,
+          default: "bearer",
+          when: !given.auth,
+        },
+        {
+          type: "list",
+          name: "errorHandling",
+          message: "Global error handling",
+          choices: (answers: { framework?: Framework }) =>
+            (given.framework ?? answers.framework) === "node"
+              ? ERROR_STYLES.filter((style) => style !== "toast")
+              : ERROR_STYLES,
+          when: !given.errorHandling,
+        },
+        {
+          type: "input",
+          name: "dir",
+          message: "Directory",
+          default: "api",
+          when: !options.dir,
+        },
+      ])
+    : {};
+
+  const framework = given.framework ?? answers.framework ?? project.framework;
+  const environments = options.env?.length
+    ? parseEnvironments(options.env)
+    : interactive
+      ? await askEnvironments()
+      : DEFAULT_ENVIRONMENTS;
+
+  return {
+    framework,
+    auth: given.auth ?? answers.auth ?? "bearer",
+    environments,
+    errorHandling:
+      given.errorHandling ??
+      answers.errorHandling ??
+      (framework === "node" ? "log" : "toast"),
+    testRunner: project.testRunner,
+    mocking: project.mocking,
+    importPath: options.importPath,
+    dir: options.dir ?? answers.dir ?? "api",
+  };
+}
+
+async function exists(file: string): Promise<boolean> {
+  return fs.access(file).then(
+    () => true,
+    () => false,
+  );
+}
+
+async function runInit(options: InitCommandOptions): Promise<void> {
+  const interactive = !options.yes && !!process.stdin.isTTY;
+  const project = await readProject();
+  const { dir, ...scaffold } = await resolveAnswers(
+    options,
+    project,
+    interactive,
+  );
+
+  await fs.mkdir(dir, { recursive: true });
+  for (const file of scaffoldFiles(scaffold)) {
+    const target = path.join(dir, file.path);
+
+    if ((await exists(target)) && !options.force) {
+      const { overwrite } = interactive
+        ? await inquirer.prompt([
+            {
+              type: "confirm",
+              name: "overwrite",
+              message: `${target} already exists. Overwrite it?`,
+              default: false,
+            },
+          ])
+        : { overwrite: false };
+      if (!overwrite) {
+        console.warn(chalk.yellow(`⚠ Skipped ${target}, it already exists`));
+        continue;
+      }
+    }
+
+    await fs.writeFile(target, file.content, "utf8");
+    console.log(chalk.green(`✔ Created ${target}`));
+  }
+
+  console.log(
+    `\nThe example test mocks requests with ${scaffold.mocking}: ${chalk.cyan(
+      `npm install -D ${scaffold.mocking}`,
+    )}`,
+  );
+  if (scaffold.framework === "node" && scaffold.auth === "bearer") {
+    console.log(
+      `The client saves auth tokens to .api-token, add it to your ${chalk.cyan(
+        ".gitignore",
+      )}`,
+    );
+  }
+}
+
+export function initCommand(): Command {
+  return new Command("init")
+    .description(
+      "Scaffold a configured API client, example endpoints and a test",
+    )
+    .option("--dir <dir>", "Directory to create the files in (default: api)")
+    .option("--framework <framework>", FRAMEWORKS.join(" | "))
+    .option("--auth <scheme>", AUTH_SCHEMES.join(" | "))
+    .option("--env <name=url>", "Environment base URL, repeatable", collect)
+    .option("--error-handling <style>", ERROR_STYLES.join(" | "))
+    .option("--import-path <module>", "Module to import AxiosApi from")
+    .option("-y, --yes", "Use defaults instead of prompting")
+    .option("-f, --force", "Overwrite existing files without asking")
+    .action(async (options: InitCommandOptions) => {
+      try {
+        await runInit(options);
+      } catch (error: any) {
+        console.error(chalk.red(`✖ ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+}
@@ -0,0 +1,32 @@
+import { Command } from "commander";
+import { ResolvedProfile, resolveProfile, selectProfile } from "../config";
+import { findConfigFile, loadConfigFile } from "../node";
+
+export interface ProfileCommandOptions {
+  profile?: string;
+  config?: string;
+}
+
+export function withProfileOptions(command: Command): Command {
+  return command
+    .option("-p, --profile <name>", "Profile from better-axios.config.*")
+    .option("-c, --config <file>", "Config file to read profiles from");
+}
+
+// The profile resolveProfile() would pick. Null when there is none and no --config was given.
+export async function resolveCliProfile(
+  options: ProfileCommandOptions,
+): Promise<ResolvedProfile | null> {
+  const file = options.config ?? (await findConfigFile());
+  if (!file) {
+    if (options.profile) {
+      throw new Error(`No config file found for profile "${options.profile}"`);
+    }
+    return null;
+  }
+
+  const config = await loadConfigFile(file);
+  if (!selectProfile(config, options) && !options.config) return null;
+
+  return resolveProfile(config, { profile: options.profile });
+}
@@ -0,0 +1,264 @@
+import { promises as fs } from "fs";
+import { STATUS_CODES } from "http";
+import chalk from "chalk";
+import { Command } from "commander";
+import inquirer from "inquirer";
+import { AxiosResponse } from "axios";
+import { AxiosApi, AxiosApiConfig, HttpMethod } from "../wrapper";
+import { ApiError } from "../errors";
+import {
+  ProfileCommandOptions,
+  resolveCliProfile,
+  withProfileOptions,
+} from "./profile";
+
+interface RequestCommandOptions extends ProfileCommandOptions {
+  baseUrl?: string;
+  header: string[];
+  query: string[];
+  data?: string;
+  authToken?: string;
+  timeout?: string;
+  prompt: boolean; // `--no-prompt` disables interactive questions
+}
+
+interface RequestInput {
+  method?: string;
+  url?: string;
+  data?: string;
+}
+
+const METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+const BODY_METHODS: HttpMethod[] = ["POST", "PUT", "PATCH"];
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// "Name: value" pairs from --header
+function parseHeaders(headers: string[]): Record<string, string> {
+  return Object.fromEntries(
+    headers.map((header) => {
+      const index = header.indexOf(":");
+      if (index <= 0) throw new Error(`Invalid header "${header}"`);
+      return [header.slice(0, index).trim(), header.slice(index + 1).trim()];
+    }),
+  );
+}
+
+// "key=value" pairs from --query
+function parseQuery(query: string[]): Record<string, string> | undefined {
+  if (!query.length) return undefined;
+  return Object.fromEntries(
+    query.map((pair) => {
+      const index = pair.indexOf("=");
+      if (index <= 0) throw new Error(`Invalid query parameter "${pair}"`);
+      return [pair.slice(0, index), pair.slice(index + 1)];
+    }),
+  );
+}
+
+// JSON when it parses, raw text otherwise. `@file` reads the body from a file.
+async function parseData(data: string | undefined): Promise<unknown> {
+  if (data === undefined || data === "") return undefined;
+  const source = data.startsWith("@")
+    ? await fs.readFile(data.slice(1), "utf8")
+    : data;
+  try {
+    return JSON.parse(source);
+  } catch {
+    return source;
+  }
+}
+
+// Ask for whatever wasn't passed on the command line
+async function promptMissing(
+  input: RequestInput,
+  options: RequestCommandOptions,
+): Promise<Required<Pick<RequestInput, "method" | "url">> & RequestInput> {
+  const interactive = options.prompt && process.stdin.isTTY;
+  const answers = interactive
+    ? await inquirer.prompt([
+        {
+          type: "list",
+          name: "method",
+          message: "Method",
+          choices: METHODS,
+          when: !input.method,
+        },
+        {
+          type: "input",
+          name: "url",
+          message: "URL",
+          when: !input.url,
+          validate: (value: string) => !!value.trim() || "URL is required",
+        },
+        {
+          type: "editor",
+          name: "data",
+          message: "Request body (JSON)",
+          when: (answers: RequestInput) =>
+            input.data === undefined &&
+            BODY_METHODS.includes(
+              (input.method ?? answers.method)!.toUpperCase() as HttpMethod,
+            ),
+        },
+      ])
+    : {};
+
+  const method = (input.method ?? answers.method ?? "GET").toUpperCase();
+  const url = input.url ?? answers.url;
+  if (!METHODS.includes(method as HttpMethod)) {
+    throw new Error(`Unsupported method ${method}`);
+  }
+  if (!url) throw new Error("Missing URL");
+
+  return { method, url, data: input.data ?? answers.data?.trim() };
+}
+
+const jsonToken =
+  /("(?:\\u[a-fA-F0-9]{4}|\\[^u]|[^\\"])*"(\s*:)?|\b(?:true|false|null)\b|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/g;
+
+function highlightJson(value: unknown): string {
+  return JSON.stringify(value, null, 2).replace(jsonToken, (token, _, key) => {
+    if (key) return chalk.cyan(token);
+    if (token.startsWith('"')) return chalk.green(token);
+    if (/true|false|null/.test(token)) return chalk.magenta(token);
+    return chalk.yellow(token);
+  });
+}
+
+function formatStatus(statusCode: number): string {
+  const text = `${statusCode} ${STATUS_CODES[statusCode] ?? ""}`.trim();
+  if (statusCode >= 200 && statusCode < 300) return chalk.green.bold(text);
+  if (statusCode >= 300 && statusCode < 400) return chalk.yellow.bold(text);
+  return chalk.red.bold(text);
+}
+
+function printResponse(
+  statusCode: number,
+  duration: number,
+  headers: Record<string, unknown>,
+  data: unknown,
+): void {
+  const lines = [`${formatStatus(statusCode)} ${chalk.gray(`${duration} ms`)}`];
+  for (const [name, value] of Object.entries(headers)) {
+    lines.push(`${chalk.gray(name)}: ${value}`);
+  }
+  if (data !== undefined && data !== "") {
+    lines.push("", typeof data === "string" ? data : highlightJson(data));
+  }
+  console.log(lines.join("\n"));
+}
+
+async function runRequest(
+  input: RequestInput,
+  options: RequestCommandOptions,
+): Promise<void> {
+  const { method, url, data } = await promptMissing(input, options);
+  const params = parseQuery(options.query);
+  const body = await parseData(data);
+
+  // Flags take precedence over the profile
+  const profile = await resolveCliProfile(options);
+  const config: AxiosApiConfig = {
+    ...profile?.config,
+    baseURL: options.baseUrl ?? profile?.config.baseURL ?? "",
+    defaultHeaders: {
+      ...profile?.config.defaultHeaders,
+      ...parseHeaders(options.header),
+    },
+  };
+  if (options.timeout) config.timeout = Number(options.timeout);
+
+  // ApiResponse has no headers, so keep the raw response for printing
+  let lastResponse: AxiosResponse | undefined;
+  const api = new AxiosApi({
+    ...config,
+    responseInterceptor: async (response) => {
+      lastResponse = profile?.config.responseInterceptor
+        ? await profile.config.responseInterceptor(response)
+        : response;
+      return lastResponse;
+    },
+  });
+  const authToken = options.authToken ?? profile?.authToken;
+  if (authToken) await api.setAuthToken(authToken);
+
+  console.log(chalk.bold(`${method} ${config.baseURL}${url}`));
+  const startedAt = Date.now();
+  try {
+    const response = await api.request(method as HttpMethod, url, {
+      params,
+      data: body,
+    });
+    printResponse(
+      response.statusCode,
+      Date.now() - startedAt,
+      { ...lastResponse?.headers },
+      response.data,
+    );
+  } catch (error) {
+    const apiError = error as ApiError;
+    if (apiError.statusCode) {
+      printResponse(
+        apiError.statusCode,
+        Date.now() - startedAt,
+        apiError.headers ?? {},
+        apiError.data,
+      );
+    } else {
+      console.error(chalk.red(`✖ ${apiError.message}`));
+    }
+    process.exitCode = 1;
+  }
+}
+
+function withRequestOptions(command: Command): Command {
+  return withProfileOptions(command)
+    .option("-b, --base-url <url>", "Base URL, overrides the profile's")
+    .option("-H, --header <header>", 'Header as "Name: value"', collect, [])
+    .option(
+      "-q, --query <param>",
+      'Query parameter as "key=value"',
+      collect,
+      [],
+    )
+    .option("-d, --data <body>", "Request body, JSON or @file")
+    .option("-t, --auth-token <token>", "Auth token sent with the request")
+    .option("--timeout <ms>", "Request timeout in milliseconds")
+    .option("--no-prompt", "Never prompt for missing values");
+}
+
+async function handle(action: () => Promise<void>): Promise<void> {
+  try {
+    await action();
+  } catch (error: any) {
+    console.error(chalk.red(`✖ ${error.message}`));
+    process.exitCode = 1;
+  }
+}
+
+export function requestCommand(): Command {
+  return withRequestOptions(
+    new Command("request")
+      .description("Send an HTTP request and print the response")
+      .argument("[method]", `HTTP method (${METHODS.join(", ")})`)
+      .argument("[url]", "Request URL, relative to --base-url"),
+  ).action((method: string | undefined, url: string | undefined, options) =>
+    handle(() => runRequest({ method, url, data: options.data }, options)),
+  );
+}
+
+// Shortcuts such as `axios-wrapper get /users`
+export function methodCommands(): Command[] {
+  return METHODS.map((method) =>
+    withRequestOptions(
+      new Command(method.toLowerCase())
+        .description(`Send a ${method} request`)
+        .argument("[url]", "Request URL, relative to --base-url"),
+    ).action((url: string | undefined, options) =>
+      handle(() => runRequest({ method, url, data: options.data }, options)),
+    ),
+  );
+}
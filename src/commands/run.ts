@@ -0,0 +1,105 @@
+import { promises as fs } from "fs";
+import chalk from "chalk";
+import { Command } from "commander";
+import {
+  CollectionReport,
+  loadCollection,
+  runCollection,
+  toJUnitXml,
+} from "../collection";
+import { AxiosApi } from "../wrapper";
+import {
+  ProfileCommandOptions,
+  resolveCliProfile,
+  withProfileOptions,
+} from "./profile";
+
+interface RunCommandOptions extends ProfileCommandOptions {
+  env?: string;
+  var: string[]; // "name=value" pairs
+  junit?: string;
+  bail?: boolean;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function parseVariables(pairs: string[]): Record<string, string> {
+  return Object.fromEntries(
+    pairs.map((pair) => {
+      const index = pair.indexOf("=");
+      if (index <= 0) throw new Error(`Invalid variable "${pair}"`);
+      return [pair.slice(0, index), pair.slice(index + 1)];
+    }),
+  );
+}
+
+function printReport(report: CollectionReport): void {
+  console.log(chalk.bold(report.name));
+  for (const result of report.results) {
+    const label = `${result.method} ${result.url}`;
+    if (result.skipped) {
+      console.log(chalk.gray(`  - ${result.name} ${label} (skipped)`));
+      continue;
+    }
+
+    const status = result.statusCode ? ` ${result.statusCode}` : "";
+    const line = `${result.name} ${chalk.gray(`${label}${status} ${result.duration} ms`)}`;
+    console.log(
+      result.passed
+        ? `  ${chalk.green("✔")} ${line}`
+        : `  ${chalk.red("✖")} ${line}`,
+    );
+    if (result.error) console.log(chalk.red(`      ${result.error}`));
+    for (const failure of result.failures) {
+      console.log(chalk.red(`      ${failure}`));
+    }
+  }
+
+  const summary = [
+    chalk.green(`${report.passed} passed`),
+    report.failed ? chalk.red(`${report.failed} failed`) : "",
+    report.skipped ? chalk.gray(`${report.skipped} skipped`) : "",
+  ].filter(Boolean);
+  console.log(
+    `\n${summary.join(", ")} ${chalk.gray(`(${report.duration} ms)`)}`,
+  );
+}
+
+export function runCommand(): Command {
+  return withProfileOptions(new Command("run"))
+    .description("Run a request collection and report assertion results")
+    .argument("<collection>", "Collection file (YAML or JSON)")
+    .option("-e, --env <name>", "Environment to take variables from")
+    .option("--var <name=value>", "Set a variable, repeatable", collect, [])
+    .option("--junit <file>", "Write a JUnit XML report")
+    .option("--bail", "Stop after the first failing request")
+    .action(async (file: string, options: RunCommandOptions) => {
+      try {
+        // With a profile, requests go through its client and the
+        // collection's baseURL (if any) still wins
+        const profile = await resolveCliProfile(options);
+        const api = profile ? new AxiosApi(profile.config) : undefined;
+        if (api && profile?.authToken)
+          await api.setAuthToken(profile.authToken);
+
+        const report = await runCollection(await loadCollection(file), {
+          env: options.env,
+          variables: parseVariables(options.var),
+          bail: options.bail,
+          api,
+        });
+        printReport(report);
+
+        if (options.junit) {
+          await fs.writeFile(options.junit, toJUnitXml(report), "utf8");
+          console.log(chalk.gray(`JUnit report written to ${options.junit}`));
+        }
+        if (report.failed) process.exitCode = 1;
+      } catch (error: any) {
+        console.error(chalk.red(`✖ ${error.message}`));
+        process.exitCode = 1;
+      }
+    });
+}
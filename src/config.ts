@@ -0,0 +1,152 @@
+import type { AxiosApiConfig } from "./wrapper";
+import { apiKeyAuth, basicAuth, bearerAuth } from "./auth";
+import { OAuth2Auth, OAuth2Config } from "./oauth2";
+
+// How a profile authenticates. Secrets usually come from `${ENV_VAR}` placeholders.
+export type ProfileCredentials =
+  | { type: "bearer"; token?: string }
+  | { type: "basic"; username: string; password: string }
+  | { type: "apiKey"; in: "header" | "query"; name: string; key?: string }
+  | ({ type: "oauth2" } & OAuth2Config);
+
+export interface ProfileConfig extends Partial<AxiosApiConfig> {
+  credentials?: ProfileCredentials;
+}
+
+export interface BetterAxiosConfig {
+  defaultProfile?: string; // Used when no profile is requested and BETTER_AXIOS_PROFILE is unset
+  defaults?: ProfileConfig; // Shared by every profile
+  profiles: Record<string, ProfileConfig>;
+}
+
+export interface ConfigFileOptions {
+  path?: string; // Config file to load (default: nearest better-axios.config.* from `cwd`)
+  profile?: string; // Profile name (default: BETTER_AXIOS_PROFILE, then `defaultProfile`)
+  cwd?: string;
+  env?: Record<string, string | undefined>; // Variables for `${...}` placeholders (default: process.env)
+  overrides?: Partial<AxiosApiConfig>; // Applied on top of the profile
+}
+
+export interface ResolvedProfile {
+  name: string;
+  config: AxiosApiConfig;
+  authToken?: string; // Static bearer token to set on the client
+}
+
+// Typed helper for JS/TS config files
+export function defineConfig(config: BetterAxiosConfig): BetterAxiosConfig {
+  return config;
+}
+
+// Replace `${NAME}` and `${NAME:-fallback}` in every string
+export function interpolateEnv<T>(
+  value: T,
+  env: Record<string, string | undefined>,
+): T {
+  if (typeof value === "string") {
+    return value.replace(
+      /\$\{(\w+)(?::-([^}]*))?\}/g,
+      (_, name: string, fallback?: string) => {
+        const resolved = env[name] ?? fallback;
+        if (resolved === undefined) {
+          throw new Error(`Environment variable ${name} is not set`);
+        }
+        return resolved;
+      },
+    ) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolateEnv(item, env)) as T;
+  }
+  // Only plain objects, so instances like token stores are left alone
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        interpolateEnv(item, env),
+      ]),
+    ) as T;
+  }
+  return value;
+}
+
+function credentialsConfig(
+  credentials: ProfileCredentials,
+): Pick<AxiosApiConfig, "authStrategy"> & { authToken?: string } {
+  switch (credentials.type) {
+    case "bearer":
+      return { authStrategy: bearerAuth(), authToken: credentials.token };
+    case "basic":
+      return { authStrategy: basicAuth(credentials) };
+    case "apiKey":
+      return { authStrategy: apiKeyAuth(credentials) };
+    case "oauth2": {
+      const { type, ...oauth2 } = credentials;
+      return { authStrategy: new OAuth2Auth(oauth2) };
+    }
+    default:
+      throw new Error(
+        `Unknown credentials type "${(credentials as { type: string }).type}"`,
+      );
+  }
+}
+
+// The requested profile, then BETTER_AXIOS_PROFILE, `defaultProfile` and the only profile
+export function selectProfile(
+  config: BetterAxiosConfig,
+  options: Pick<ConfigFileOptions, "profile" | "env"> = {},
+): string | undefined {
+  const env =
+    options.env ?? (typeof process !== "undefined" ? process.env : {});
+  const names = Object.keys(config.profiles);
+  return (
+    options.profile ??
+    env.BETTER_AXIOS_PROFILE ??
+    config.defaultProfile ??
+    (names.length === 1 ? names[0] : undefined)
+  );
+}
+
+// Merge the defaults with the selected profile and resolve placeholders and credentials
+export function resolveProfile(
+  config: BetterAxiosConfig,
+  options: Pick<ConfigFileOptions, "profile" | "env" | "overrides"> = {},
+): ResolvedProfile {
+  const env =
+    options.env ?? (typeof process !== "undefined" ? process.env : {});
+  const names = Object.keys(config.profiles);
+  const name = selectProfile(config, { profile: options.profile, env });
+
+  if (!name) {
+    throw new Error(`No profile selected, choose one of: ${names.join(", ")}`);
+  }
+  if (!config.profiles[name]) {
+    throw new Error(
+      `Unknown profile "${name}", choose one of: ${names.join(", ")}`,
+    );
+  }
+
+  let merged: ProfileConfig;
+  try {
+    const defaults = interpolateEnv(config.defaults ?? {}, env);
+    const profile = interpolateEnv(config.profiles[name], env);
+    merged = {
+      ...defaults,
+      ...profile,
+      defaultHeaders: { ...defaults.defaultHeaders, ...profile.defaultHeaders },
+    };
+  } catch (error: any) {
+    throw new Error(`${error.message} (profile "${name}")`);
+  }
+
+  const { credentials, ...rest } = merged;
+  const { authToken, ...auth } = credentials
+    ? credentialsConfig(credentials)
+    : {};
+  const resolved = { ...rest, ...auth, ...options.overrides };
+
+  if (!resolved.baseURL) {
+    throw new Error(`Profile "${name}" has no baseURL`);
+  }
+  return { name, config: resolved as AxiosApiConfig, authToken };
+}
@@ -0,0 +1,141 @@
+import { ApiResponse, AxiosApi, HttpMethod, RequestConfig } from "./wrapper";
+import { ValidationError } from "./errors";
+import { Schema, formatIssues, validateSchema } from "./schema";
+
+// Request options an endpoint can set as defaults
+export type EndpointDefaults = Omit<
+  RequestConfig,
+  "schema" | "requestSchema" | "params" | "data"
+>;
+
+export interface EndpointDefinition extends EndpointDefaults {
+  method: HttpMethod;
+  path: string; // e.g. "/users/:id"
+  params?: Schema; // Path params, typed from `path` when omitted
+  query?: Schema;
+  body?: Schema;
+  response?: Schema;
+}
+
+export type ApiContract = Record<string, EndpointDefinition>;
+
+// "/users/:id/posts/:postId" -> "id" | "postId"
+export type PathParamNames<P extends string> =
+  P extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | PathParamNames<`/${Rest}`>
+    : P extends `${string}:${infer Param}`
+      ? Param
+      : never;
+
+type ParamsArg<E extends EndpointDefinition> = E extends {
+  params: Schema<infer T>;
+}
+  ? { params: T }
+  : [PathParamNames<E["path"]>] extends [never]
+    ? {}
+    : { params: Record<PathParamNames<E["path"]>, string | number> };
+
+type QueryArg<E extends EndpointDefinition> = E extends {
+  query: Schema<infer T>;
+}
+  ? { query?: T }
+  : { query?: Record<string, any> };
+
+type BodyArg<E extends EndpointDefinition> = E extends { body: Schema<infer T> }
+  ? { body: T }
+  : { body?: any };
+
+export type EndpointResponse<E extends EndpointDefinition> = E extends {
+  response: Schema<infer T>;
+}
+  ? T
+  : any;
+
+export type EndpointArgs<E extends EndpointDefinition> = ParamsArg<E> &
+  QueryArg<E> &
+  BodyArg<E> & { config?: RequestConfig<EndpointResponse<E>> };
+
+// Arguments are optional when the endpoint has nothing required
+export type EndpointFunction<E extends EndpointDefinition> =
+  {} extends EndpointArgs<E>
+    ? (args?: EndpointArgs<E>) => Promise<ApiResponse<EndpointResponse<E>>>
+    : (args: EndpointArgs<E>) => Promise<ApiResponse<EndpointResponse<E>>>;
+
+export type ApiClient<C extends ApiContract> = {
+  [K in keyof C]: EndpointFunction<C[K]>;
+};
+
+// Declare endpoints once; literal paths are kept so path params can be typed
+export function defineApi<const C extends ApiContract>(contract: C): C {
+  return contract;
+}
+
+// Type-only schema for endpoints that don't need runtime validation
+export function typed<T>(): Schema<T> {
+  return { parse: (data: unknown) => data as T };
+}
+
+export function interpolatePath(
+  path: string,
+  params: Record<string, string | number> = {},
+): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, (_, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null) {
+      throw new Error(`Missing path parameter "${name}" for ${path}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+function validateArg(schema: Schema | undefined, value: any, target: string) {
+  if (!schema || value === undefined) return value;
+
+  const result = validateSchema(schema, value);
+  if (!result.success) {
+    throw new ValidationError(
+      `${target} validation failed: ${formatIssues(result.issues)}`,
+      { issues: result.issues },
+    );
+  }
+  return result.data;
+}
+
+// Build a typed client whose methods call AxiosApi.request for each endpoint
+export function createClient<C extends ApiContract>(
+  api: AxiosApi,
+  contract: C,
+): ApiClient<C> {
+  const client: Record<string, (args?: any) => Promise<ApiResponse>> = {};
+
+  for (const [name, endpoint] of Object.entries(contract)) {
+    const {
+      method,
+      path,
+      params: paramsSchema,
+      query: querySchema,
+      body: bodySchema,
+      response: responseSchema,
+      ...defaults
+    } = endpoint;
+
+    client[name] = async (args: any = {}) => {
+      const params = validateArg(paramsSchema, args.params, "Params");
+      const query = validateArg(querySchema, args.query, "Query");
+      const url = interpolatePath(path, params);
+
+      return api.request(method, url, {
+        ...defaults,
+        ...args.config,
+        headers: { ...defaults.headers, ...args.config?.headers },
+        params: query ?? args.config?.params,
+        data: args.body,
+        requestSchema: bodySchema,
+        schema: responseSchema,
+        urlTemplate: path,
+      });
+    };
+  }
+
+  return client as ApiClient<C>;
+}
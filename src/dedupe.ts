@@ -0,0 +1,47 @@
+import { AuthStrategy } from "./auth";
+import { createCacheKey } from "./cache";
+
+const strategyIds = new WeakMap<AuthStrategy, number>();
+let nextStrategyId = 1;
+
+// Identifies who a request is made as, so requests for different users are never shared
+export function authIdentity(
+  useAuth: boolean,
+  token: string | null,
+  strategy?: AuthStrategy,
+): string {
+  if (!useAuth) return "anonymous";
+  if (!strategy) return `default:${token ?? ""}`;
+
+  if (!strategyIds.has(strategy)) {
+    strategyIds.set(strategy, nextStrategyId++);
+  }
+  return `${strategyIds.get(strategy)}:${token ?? ""}`;
+}
+
+export function createDedupeKey(
+  method: string,
+  url: string,
+  params: any,
+  identity: string,
+): string {
+  return `${createCacheKey(method, url, params)} ${identity}`;
+}
+
+// Deep copy response data so callers sharing a request cannot affect each other
+export function cloneData<T>(data: T): T {
+  if (data === null || typeof data !== "object") return data;
+  if (typeof structuredClone === "function") {
+    try {
+      return structuredClone(data);
+    } catch {
+      // Not cloneable (e.g. a stream), share the original
+      return data;
+    }
+  }
+  try {
+    return JSON.parse(JSON.stringify(data));
+  } catch {
+    return data;
+  }
+}
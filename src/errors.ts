@@ -0,0 +1,170 @@
+import axios from "axios";
+
+export type ApiErrorCode =
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "CANCELLED"
+  | "HTTP_ERROR"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "TOKEN_EXPIRED"
+  | "VALIDATION_ERROR"
+  | "UNKNOWN";
+
+export interface ApiErrorOptions {
+  statusCode?: number;
+  code?: ApiErrorCode;
+  originalError?: any;
+  method?: string;
+  url?: string;
+  headers?: Record<string, string>;
+  data?: any;
+}
+
+export interface ValidationIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+// Base class for every error thrown by AxiosApi
+export class ApiError extends Error {
+  statusCode: number; // HTTP status, 0 when no response was received
+  code: ApiErrorCode;
+  originalError: any;
+  attempts?: number; // Number of attempts made before giving up
+  method?: string;
+  url?: string;
+  headers?: Record<string, string>; // Response headers
+  data?: any; // Parsed response body
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.statusCode = options.statusCode ?? 0;
+    this.code = options.code ?? "UNKNOWN";
+    this.originalError = options.originalError;
+    this.method = options.method;
+    this.url = options.url;
+    this.headers = options.headers;
+    this.data = options.data;
+  }
+}
+
+// The server responded with a non-2xx status
+export class HttpError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { code: "HTTP_ERROR", ...options });
+  }
+}
+
+// 401/403 responses
+export class AuthError extends HttpError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, {
+      code: options.statusCode === 403 ? "FORBIDDEN" : "UNAUTHORIZED",
+      ...options,
+    });
+  }
+}
+
+// No response was received
+export class NetworkError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { code: "NETWORK_ERROR", ...options, statusCode: 0 });
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { code: "TIMEOUT", ...options });
+  }
+}
+
+export class CancelledError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { code: "CANCELLED", ...options, statusCode: 0 });
+  }
+}
+
+// Request or response data did not match the expected schema
+export class ValidationError extends ApiError {
+  issues: ValidationIssue[];
+
+  constructor(
+    message: string,
+    options: ApiErrorOptions & { issues?: ValidationIssue[] } = {},
+  ) {
+    super(message, { code: "VALIDATION_ERROR", ...options });
+    this.issues = options.issues ?? [];
+  }
+}
+
+// Type guards
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
+export const isHttpError = (error: unknown): error is HttpError =>
+  error instanceof HttpError;
+export const isAuthError = (error: unknown): error is AuthError =>
+  error instanceof AuthError;
+export const isNetworkError = (error: unknown): error is NetworkError =>
+  error instanceof NetworkError;
+export const isTimeoutError = (error: unknown): error is TimeoutError =>
+  error instanceof TimeoutError;
+export const isCancelledError = (error: unknown): error is CancelledError =>
+  error instanceof CancelledError;
+export const isValidationError = (error: unknown): error is ValidationError =>
+  error instanceof ValidationError;
+
+// Convert anything thrown while making a request into the matching ApiError subclass
+export function toApiError(
+  error: any,
+  context: { method?: string; url?: string } = {},
+): ApiError {
+  if (error instanceof ApiError) {
+    error.method = error.method ?? context.method;
+    error.url = error.url ?? context.url;
+    return error;
+  }
+
+  if (axios.isCancel(error)) {
+    return new CancelledError(error.message || "Request was cancelled", {
+      originalError: error,
+      ...context,
+    });
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new ApiError(error?.message || "Unknown error occurred", {
+      originalError: error,
+      ...context,
+    });
+  }
+
+  const options: ApiErrorOptions = {
+    originalError: error,
+    method: (error.config?.method ?? context.method)?.toUpperCase(),
+    url: error.config?.url ?? context.url,
+  };
+
+  const response = error.response;
+  if (!response) {
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new TimeoutError(error.message || "Request timed out", options);
+    }
+    return new NetworkError(error.message || "Network error", options);
+  }
+
+  const data = response.data as any;
+  const message = data?.message || error.message || "Request failed";
+  const httpOptions: ApiErrorOptions = {
+    ...options,
+    statusCode: response.status,
+    headers: { ...(response.headers as Record<string, string>) },
+    data,
+  };
+
+  if (response.status === 401 || response.status === 403) {
+    return new AuthError(message, httpOptions);
+  }
+  return new HttpError(message, httpOptions);
+}
@@ -0,0 +1,113 @@
+import type { ApiError } from "./errors";
+
+interface RequestEvent {
+  requestId: string; // Same for every event of one request, including retries
+  method: string;
+  url: string; // Resolved URL including the baseURL and query
+}
+
+export interface RequestStartEvent extends RequestEvent {
+  timestamp: number; // Epoch ms
+}
+
+export interface RequestEndEvent extends RequestEvent {
+  status: number;
+  duration: number; // Milliseconds, including retries
+  attempts: number;
+  size: number; // Response body size in bytes, parsed bodies measured as JSON
+  fromCache: boolean;
+}
+
+export interface RequestRetryEvent extends RequestEvent {
+  attempt: number; // The attempt that failed, starting at 1
+  delay: number; // Milliseconds until the next attempt
+  status?: number; // Status of the failed attempt, if a response was received
+}
+
+export interface RequestErrorEvent extends RequestEvent {
+  error: ApiError;
+  status?: number;
+  duration: number; // Milliseconds, including retries
+  attempts: number;
+}
+
+export interface AuthChangedEvent {
+  authenticated: boolean; // Whether a token is set now
+  reason: "set" | "removed" | "refreshed" | "refreshFailed" | "loaded";
+}
+
+export interface ApiEvents {
+  "request:start": RequestStartEvent;
+  "request:end": RequestEndEvent;
+  "request:retry": RequestRetryEvent;
+  "request:error": RequestErrorEvent;
+  "auth:changed": AuthChangedEvent;
+}
+
+export type ApiEventName = keyof ApiEvents;
+export type ApiEventListener<K extends ApiEventName> = (
+  event: ApiEvents[K],
+) => void;
+
+// Minimal typed emitter that works in browsers and Node
+export class ApiEventEmitter {
+  private listeners = new Map<ApiEventName, Set<(event: any) => void>>();
+
+  on<K extends ApiEventName>(
+    event: K,
+    listener: ApiEventListener<K>,
+  ): () => void {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  once<K extends ApiEventName>(
+    event: K,
+    listener: ApiEventListener<K>,
+  ): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  off<K extends ApiEventName>(event: K, listener: ApiEventListener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends ApiEventName>(event: K, payload: ApiEvents[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners?.size) return;
+
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(payload);
+      } catch {
+        // A failing listener must not break the request it observes
+      }
+    }
+  }
+}
+
+let requestCount = 0;
+
+export function createRequestId(): string {
+  const crypto = (globalThis as { crypto?: { randomUUID?: () => string } })
+    .crypto;
+  return (
+    crypto?.randomUUID?.() ??
+    `${Date.now().toString(36)}-${(++requestCount).toString(36)}`
+  );
+}
+
+// Size of a response body in bytes
+export function bodySize(data: unknown): number {
+  if (data === undefined || data === null || data === "") return 0;
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return data.byteLength;
+  }
+  const text = typeof data === "string" ? data : JSON.stringify(data);
+  return text === undefined ? 0 : new TextEncoder().encode(text).length;
+}
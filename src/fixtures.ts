@@ -0,0 +1,580 @@
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+  getAdapter,
+} from "axios";
+import { cloneData } from "./dedupe";
+import type { AuthSecrets } from "./auth";
+
+export interface FixtureRedaction {
+  headers?: string[]; // Request and response headers to redact, besides auth and cookie headers
+  query?: string[]; // Query params to redact, e.g. 'access_token'
+  bodyKeys?: string[]; // Keys redacted at any depth of JSON bodies, e.g. 'password'
+  replacement?: string; // Default: '[REDACTED]'
+}
+
+export interface FixtureConfig {
+  mode: "record" | "replay";
+  path: string; // Fixture file. Files ending in .har are read and written as HAR 1.2.
+  redact?: FixtureRedaction;
+}
+
+export interface FixtureRequest {
+  method: string;
+  url: string; // Absolute URL without the query string
+  query: Record<string, string | string[]>;
+  headers: Record<string, string>;
+  body?: any; // Parsed JSON when possible
+}
+
+export interface FixtureResponse {
+  status: number;
+  statusText?: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+export interface FixtureEntry {
+  request: FixtureRequest;
+  response: FixtureResponse;
+  recordedAt: string; // ISO date
+  time: number; // Milliseconds
+}
+
+export interface FixtureFile {
+  version: 1;
+  entries: FixtureEntry[];
+}
+
+// The subset of HAR 1.2 written and read by toHar/fromHar
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      encoding?: string;
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, unknown>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export class FixtureMismatchError extends Error {
+  constructor(
+    message: string,
+    public request: FixtureRequest,
+    public nearest?: FixtureEntry,
+  ) {
+    super(message);
+    this.name = "FixtureMismatchError";
+  }
+}
+
+const DEFAULT_REDACTED_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+];
+
+function parseBody(body: unknown): any {
+  if (typeof body !== "string") return body ?? undefined;
+  if (body === "") return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function stringifyBody(body: unknown): string | undefined {
+  if (body === undefined) return undefined;
+  return typeof body === "string" ? body : JSON.stringify(body);
+}
+
+function headerRecord(headers: unknown): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(AxiosHeaders.from(headers as any).toJSON())
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [
+        key.toLowerCase(),
+        Array.isArray(value) ? value.join(", ") : String(value),
+      ]),
+  );
+}
+
+function queryValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Normalize an outgoing request so it can be recorded and compared
+function describeRequest(config: InternalAxiosRequestConfig): FixtureRequest {
+  const rawUrl = config.url ?? "";
+  const isAbsolute = /^[a-z][a-z\d+.-]*:\/\//i.test(rawUrl);
+  const joined =
+    isAbsolute || !config.baseURL
+      ? rawUrl
+      : `${config.baseURL.replace(/\/+$/, "")}/${rawUrl.replace(/^\/+/, "")}`;
+  const [url, search = ""] = joined.split("?");
+
+  const query: Record<string, string | string[]> = {};
+  const add = (key: string, value: unknown) => {
+    if (value === undefined || value === null) return;
+    const values = (Array.isArray(value) ? value : [value]).map(queryValue);
+    const existing = query[key];
+    const merged = existing === undefined ? values : [existing, values].flat();
+    query[key] = merged.length === 1 ? merged[0] : merged;
+  };
+  new URLSearchParams(search).forEach((value, key) => add(key, value));
+  if (config.params instanceof URLSearchParams) {
+    config.params.forEach((value, key) => add(key, value));
+  } else if (config.params) {
+    Object.entries(config.params).forEach(([key, value]) => add(key, value));
+  }
+
+  return {
+    method: (config.method ?? "get").toUpperCase(),
+    url,
+    query: Object.fromEntries(
+      Object.keys(query)
+        .sort()
+        .map((key) => [key, query[key]]),
+    ),
+    headers: headerRecord(config.headers),
+    body: parseBody(config.data),
+  };
+}
+
+function redactBody(body: any, keys: string[], replacement: string): any {
+  if (Array.isArray(body)) {
+    return body.map((item) => redactBody(item, keys, replacement));
+  }
+  if (body && typeof body === "object") {
+    return Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [
+        key,
+        keys.includes(key.toLowerCase())
+          ? replacement
+          : redactBody(value, keys, replacement),
+      ]),
+    );
+  }
+  return body;
+}
+
+function redactEntry<T extends FixtureRequest | FixtureResponse>(
+  part: T,
+  redaction: FixtureRedaction = {},
+): T {
+  const replacement = redaction.replacement ?? "[REDACTED]";
+  const lower = (names: string[] = []) =>
+    names.map((name) => name.toLowerCase());
+  const headers = lower(redaction.headers);
+  const query = lower(redaction.query);
+  const redact = (record: Record<string, any>, names: string[]) =>
+    Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [
+        key,
+        names.includes(key.toLowerCase()) ? replacement : value,
+      ]),
+    );
+
+  return {
+    ...part,
+    headers: redact(part.headers, headers),
+    ...("query" in part ? { query: redact(part.query, query) } : {}),
+    body: redactBody(part.body, lower(redaction.bodyKeys), replacement),
+  };
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`,
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+// Requests match on method, URL, query and body. Headers are ignored.
+function matchKey(request: FixtureRequest): string {
+  return [
+    request.method,
+    request.url,
+    stableStringify(request.query),
+    stableStringify(request.body),
+  ].join(" ");
+}
+
+// Field by field differences, e.g. `body.name: recorded "Ada", got "Grace"`
+function diff(
+  recorded: unknown,
+  actual: unknown,
+  path: string,
+  out: string[] = [],
+): string[] {
+  const isObject = (value: unknown) =>
+    value !== null && typeof value === "object";
+  if (isObject(recorded) && isObject(actual)) {
+    const keys = new Set([
+      ...Object.keys(recorded as object),
+      ...Object.keys(actual as object),
+    ]);
+    for (const key of keys) {
+      diff((recorded as any)[key], (actual as any)[key], `${path}.${key}`, out);
+    }
+  } else if (stableStringify(recorded) !== stableStringify(actual)) {
+    const show = (value: unknown) => JSON.stringify(value) ?? "undefined";
+    out.push(`${path}: recorded ${show(recorded)}, got ${show(actual)}`);
+  }
+  return out;
+}
+
+function requestDiff(recorded: FixtureRequest, actual: FixtureRequest) {
+  const { headers: _a, ...recordedParts } = recorded;
+  const { headers: _b, ...actualParts } = actual;
+  return Object.keys(actualParts).flatMap((key) =>
+    diff((recordedParts as any)[key], (actualParts as any)[key], key),
+  );
+}
+
+function mismatchError(
+  request: FixtureRequest,
+  entries: FixtureEntry[],
+  file: string,
+): FixtureMismatchError {
+  const candidates = entries
+    .map((entry) => ({ entry, changes: requestDiff(entry.request, request) }))
+    // Prefer entries for the same endpoint, then the fewest differences
+    .sort(
+      (a, b) =>
+        Number(b.entry.request.method === request.method) -
+          Number(a.entry.request.method === request.method) ||
+        Number(b.entry.request.url === request.url) -
+          Number(a.entry.request.url === request.url) ||
+        a.changes.length - b.changes.length,
+    );
+  const nearest = candidates[0];
+
+  let message = `No recorded fixture in ${file} matches ${request.method} ${request.url}`;
+  message += nearest
+    ? `\nNearest recorded entry (${nearest.entry.request.method} ${nearest.entry.request.url}) differs in:\n${nearest.changes
+        .map((change) => `  ${change}`)
+        .join("\n")}`
+    : "\nThe fixture file has no entries";
+  return new FixtureMismatchError(message, request, nearest?.entry);
+}
+
+// Resolve or reject like axios does, based on validateStatus
+export function settleResponse(
+  config: InternalAxiosRequestConfig,
+  {
+    status,
+    statusText = "",
+    body,
+    headers = {},
+  }: Omit<FixtureResponse, "headers"> & { headers?: Record<string, string> },
+): AxiosResponse {
+  const response: AxiosResponse = {
+    data: cloneData(body),
+    status,
+    statusText,
+    headers: AxiosHeaders.from(
+      Object.fromEntries(
+        Object.entries(headers).map(([key, value]) => [
+          key.toLowerCase(),
+          value,
+        ]),
+      ),
+    ),
+    config,
+    request: {},
+  };
+
+  if (!config.validateStatus || config.validateStatus(status)) return response;
+  throw new AxiosError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response,
+  );
+}
+
+function harPairs(record: Record<string, string | string[]>): HarNameValue[] {
+  return Object.entries(record).flatMap(([name, value]) =>
+    (Array.isArray(value) ? value : [value]).map((item) => ({
+      name,
+      value: item,
+    })),
+  );
+}
+
+function fromHarPairs(pairs: HarNameValue[] = []) {
+  const record: Record<string, string | string[]> = {};
+  for (const { name, value } of pairs) {
+    const existing = record[name];
+    record[name] = existing === undefined ? value : [existing, value].flat();
+  }
+  return record;
+}
+
+export function toHar(fixture: FixtureFile): Har {
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "better-axios", version: "1.0.0" },
+      entries: fixture.entries.map(
+        ({ request, response, recordedAt, time }) => {
+          const requestText = stringifyBody(request.body);
+          const responseText = stringifyBody(response.body) ?? "";
+          const search = new URLSearchParams(
+            harPairs(request.query).map(({ name, value }) => [name, value]),
+          ).toString();
+          return {
+            startedDateTime: recordedAt,
+            time,
+            request: {
+              method: request.method,
+              url: search ? `${request.url}?${search}` : request.url,
+              httpVersion: "HTTP/1.1",
+              cookies: [],
+              headers: harPairs(request.headers),
+              queryString: harPairs(request.query),
+              ...(requestText !== undefined && {
+                postData: {
+                  mimeType:
+                    request.headers["content-type"] ?? "application/json",
+                  text: requestText,
+                },
+              }),
+              headersSize: -1,
+              bodySize: requestText?.length ?? 0,
+            },
+            response: {
+              status: response.status,
+              statusText: response.statusText ?? "",
+              httpVersion: "HTTP/1.1",
+              cookies: [],
+              headers: harPairs(response.headers),
+              content: {
+                size: responseText.length,
+                mimeType:
+                  response.headers["content-type"] ?? "application/json",
+                text: responseText,
+              },
+              redirectURL: "",
+              headersSize: -1,
+              bodySize: responseText.length,
+            },
+            cache: {},
+            timings: { send: 0, wait: time, receive: 0 },
+          };
+        },
+      ),
+    },
+  };
+}
+
+export function fromHar(har: Har): FixtureFile {
+  return {
+    version: 1,
+    entries: har.log.entries.map((entry) => {
+      const content = entry.response.content;
+      const text =
+        content.encoding === "base64" && content.text
+          ? atob(content.text)
+          : content.text;
+      const lowerKeys = (pairs: HarNameValue[]) =>
+        fromHarPairs(
+          pairs.map(({ name, value }) => ({
+            name: name.toLowerCase(),
+            value,
+          })),
+        ) as Record<string, string>;
+
+      return {
+        request: {
+          method: entry.request.method.toUpperCase(),
+          url: entry.request.url.split("?")[0],
+          query: Object.fromEntries(
+            Object.entries(fromHarPairs(entry.request.queryString)).sort(
+              ([a], [b]) => (a < b ? -1 : a > b ? 1 : 0),
+            ),
+          ),
+          headers: lowerKeys(entry.request.headers),
+          body: parseBody(entry.request.postData?.text),
+        },
+        response: {
+          status: entry.response.status,
+          statusText: entry.response.statusText,
+          headers: lowerKeys(entry.response.headers),
+          body: parseBody(text),
+        },
+        recordedAt: entry.startedDateTime,
+        time: entry.time,
+      };
+    }),
+  };
+}
+
+export async function readFixtureFile(file: string): Promise<FixtureFile> {
+  const fs = await import("fs");
+  const parsed = JSON.parse(await fs.promises.readFile(file, "utf8"));
+  if (parsed?.log?.entries) return fromHar(parsed);
+  if (!Array.isArray(parsed?.entries)) {
+    throw new Error(`${file} is not a fixture file: missing "entries"`);
+  }
+  return parsed;
+}
+
+export async function writeFixtureFile(
+  file: string,
+  fixture: FixtureFile,
+): Promise<void> {
+  const fs = await import("fs");
+  const path = await import("path");
+  const content = /\.har$/i.test(file) ? toHar(fixture) : fixture;
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(
+    file,
+    `${JSON.stringify(content, null, 2)}\n`,
+    "utf8",
+  );
+}
+
+// Wrap an adapter so responses are recorded to, or replayed from, the fixture file.
+// `authSecrets` names the client's auth header and query params, which are always redacted.
+export function createFixtureAdapter(
+  fixtures: FixtureConfig,
+  adapter: InternalAxiosRequestConfig["adapter"],
+  authSecrets: AuthSecrets = {},
+): AxiosAdapter {
+  const redaction: FixtureRedaction = {
+    ...fixtures.redact,
+    headers: [
+      ...DEFAULT_REDACTED_HEADERS,
+      ...(fixtures.redact?.headers ?? []),
+      ...(authSecrets.headers ?? []),
+    ],
+    query: [...(fixtures.redact?.query ?? []), ...(authSecrets.query ?? [])],
+  };
+
+  if (fixtures.mode === "record") {
+    const send = getAdapter(adapter);
+    const fixture: FixtureFile = { version: 1, entries: [] };
+    let writing = Promise.resolve();
+
+    const record = (
+      request: FixtureRequest,
+      response: AxiosResponse,
+      startedAt: number,
+    ) => {
+      fixture.entries.push({
+        request: redactEntry(request, redaction),
+        response: redactEntry(
+          {
+            status: response.status,
+            statusText: response.statusText,
+            headers: headerRecord(response.headers),
+            body: parseBody(response.data),
+          },
+          redaction,
+        ),
+        recordedAt: new Date(startedAt).toISOString(),
+        time: Date.now() - startedAt,
+      });
+      // Writes are chained so the file always holds every entry so far
+      writing = writing.then(() => writeFixtureFile(fixtures.path, fixture));
+      return writing;
+    };
+
+    return async (config) => {
+      const request = describeRequest(config);
+      const startedAt = Date.now();
+      try {
+        const response = await send(config);
+        await record(request, response, startedAt);
+        return response;
+      } catch (error) {
+        // Error statuses are recorded too, failed connections are not
+        const response = (error as AxiosError).response;
+        if (response) await record(request, response, startedAt);
+        throw error;
+      }
+    };
+  }
+
+  let loading: Promise<Map<string, FixtureEntry[]>> | undefined;
+  let entries: FixtureEntry[] = [];
+  const served = new Map<string, number>();
+
+  return async (config) => {
+    loading ??= readFixtureFile(fixtures.path).then((fixture) => {
+      entries = fixture.entries;
+      const byKey = new Map<string, FixtureEntry[]>();
+      for (const entry of entries) {
+        const key = matchKey(entry.request);
+        byKey.set(key, [...(byKey.get(key) ?? []), entry]);
+      }
+      return byKey;
+    });
+    const byKey = await loading;
+
+    const request = redactEntry(describeRequest(config), redaction);
+    const key = matchKey(request);
+    const matches = byKey.get(key);
+    if (!matches) throw mismatchError(request, entries, fixtures.path);
+
+    // Identical requests replay their recordings in order, then repeat the last
+    const index = served.get(key) ?? 0;
+    served.set(key, index + 1);
+    const { response } = matches[Math.min(index, matches.length - 1)];
+    return settleResponse(config, response);
+  };
+}
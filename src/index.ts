@@ -2,14 +2,145 @@
 export {
   AxiosApi,
   type AxiosApiConfig,
+  type AuthConfig,
   type ApiResponse,
-  type ApiError,
+  type ApiResult,
+  type SafeApi,
   type ErrorHandler,
   type SuccessHandler,
+  type HttpMethod,
   type RequestConfig,
   type RequestInterceptor,
   type ResponseInterceptor,
 } from "./wrapper";
+export {
+  ApiError,
+  HttpError,
+  AuthError,
+  NetworkError,
+  TimeoutError,
+  CancelledError,
+  ValidationError,
+  isApiError,
+  isHttpError,
+  isAuthError,
+  isNetworkError,
+  isTimeoutError,
+  isCancelledError,
+  isValidationError,
+  type ApiErrorCode,
+  type ApiErrorOptions,
+  type ValidationIssue,
+} from "./errors";
+export {
+  validateSchema,
+  type Schema,
+  type InferSchema,
+  type SafeParseResult,
+} from "./schema";
+export {
+  defineApi,
+  createClient,
+  typed,
+  interpolatePath,
+  type ApiContract,
+  type ApiClient,
+  type EndpointDefinition,
+  type EndpointDefaults,
+  type EndpointArgs,
+  type EndpointResponse,
+  type EndpointFunction,
+  type PathParamNames,
+} from "./contract";
+export {
+  defineConfig,
+  resolveProfile,
+  type BetterAxiosConfig,
+  type ConfigFileOptions,
+  type ProfileConfig,
+  type ProfileCredentials,
+  type ResolvedProfile,
+} from "./config";
+export { type RetryConfig } from "./retry";
+export {
+  bearerAuth,
+  basicAuth,
+  apiKeyAuth,
+  customAuth,
+  type AuthStrategy,
+  type AuthContext,
+  type AuthSecrets,
+} from "./auth";
+export {
+  MemoryTokenStore,
+  FileTokenStore,
+  WebStorageTokenStore,
+  type TokenStore,
+  type WebStorage,
+} from "./tokenStore";
+export {
+  decodeJwt,
+  isJwtExpired,
+  TokenExpiredError,
+  type JwtClaims,
+} from "./jwt";
+export {
+  OAuth2Auth,
+  OAuth2Error,
+  type OAuth2Config,
+  type OAuth2Token,
+} from "./oauth2";
+export {
+  MemoryCacheStore,
+  FileCacheStore,
+  type CacheConfig,
+  type CacheEntry,
+  type CacheStore,
+} from "./cache";
+export { AbortGroup } from "./abort";
+export { type Logger, type LoggerConfig, type LogLevel } from "./logger";
+export { type RateLimitConfig, type RateLimitRule } from "./rateLimit";
+export {
+  tracing,
+  formatTraceparent,
+  type Tracer,
+  type Span,
+  type SpanContext,
+  type TracingOptions,
+} from "./tracing";
+export {
+  type ApiEvents,
+  type ApiEventName,
+  type ApiEventListener,
+  type RequestStartEvent,
+  type RequestEndEvent,
+  type RequestRetryEvent,
+  type RequestErrorEvent,
+  type AuthChangedEvent,
+} from "./events";
+export {
+  definePlugin,
+  type Plugin,
+  type PluginContext,
+  type PluginOptions,
+  type Middleware,
+  type RetryInfo,
+} from "./plugins";
+export {
+  FixtureMismatchError,
+  readFixtureFile,
+  writeFixtureFile,
+  toHar,
+  fromHar,
+  type FixtureConfig,
+  type FixtureRedaction,
+  type FixtureEntry,
+  type FixtureFile,
+  type FixtureRequest,
+  type FixtureResponse,
+  type Har,
+  type HarEntry,
+} from "./fixtures";
 
 // Re-export axios types that users might need
 export type { AxiosRequestConfig, AxiosResponse, AxiosError } from "axios";
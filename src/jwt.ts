@@ -0,0 +1,51 @@
+import { ApiError } from "./errors";
+
+export interface JwtClaims {
+  exp?: number; // Expiry, in seconds since the epoch
+  iat?: number;
+  nbf?: number;
+  sub?: string;
+  [claim: string]: any;
+}
+
+// Thrown before sending a request when the auth token has already expired.
+// Not an HttpError: no request was sent, so there is no status code.
+export class TokenExpiredError extends ApiError {
+  constructor(public expiredAt: Date) {
+    super("Auth token has expired", { code: "TOKEN_EXPIRED" });
+  }
+}
+
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+
+  if (typeof Buffer !== "undefined") {
+    return Buffer.from(padded, "base64").toString("utf8");
+  }
+  const bytes = Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+// Decode the payload of a JWT. The signature is NOT verified.
+export function decodeJwt(token: string): JwtClaims | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+
+  try {
+    const claims = JSON.parse(decodeBase64Url(parts[1]));
+    return claims && typeof claims === "object" ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+// Whether `exp` is in the past or within `skewSeconds` from now
+export function isJwtExpired(
+  claims: JwtClaims | null,
+  skewSeconds = 0,
+  now: number = Date.now(),
+): boolean {
+  if (!claims || typeof claims.exp !== "number") return false;
+  return claims.exp * 1000 <= now + skewSeconds * 1000;
+}
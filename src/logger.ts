@@ -0,0 +1,332 @@
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { isCancelledError } from "./errors";
+import type { RequestErrorEvent, RequestRetryEvent } from "./events";
+import type { AuthStrategy } from "./auth";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// Leveled methods as found on console, pino and winston loggers
+export type Logger = Record<LogLevel, (...args: any[]) => void>;
+
+export interface LoggerConfig {
+  logger: Logger;
+  format?: "winston" | "pino"; // Argument order: (message, data) as in winston and console, or (data, message) as in pino (default: 'winston')
+  levels?: {
+    request?: LogLevel | "silent"; // Default: 'debug'
+    response?: LogLevel | "silent"; // Default: 'info'
+    retry?: LogLevel | "silent"; // Default: 'warn'
+    error?: LogLevel | "silent"; // Default: 'error', cancellations are logged at 'debug'
+  };
+  bodyPreview?: number; // Max characters of a body to log, 0 to leave bodies out (default: 1000)
+  curl?: boolean; // Log every request as a curl command at debug level (default: true)
+  redactHeaders?: string[]; // Added to the auth token header, cookies and API key headers
+  redactPaths?: string[]; // JSON paths to redact besides common secrets, e.g. 'pin' at any depth or 'user.*.ssn'
+  redactDefaultPaths?: boolean; // Redact common secrets such as 'password' and 'token' (default: true)
+  replacement?: string; // Default: '[REDACTED]'
+}
+
+const DEFAULT_REDACTED_HEADERS = [
+  "authorization",
+  "cookie",
+  "set-cookie",
+  "proxy-authorization",
+  "x-api-key",
+];
+
+const DEFAULT_REDACTED_PATHS = [
+  "password",
+  "secret",
+  "token",
+  "accessToken",
+  "access_token",
+  "refreshToken",
+  "refresh_token",
+  "idToken",
+  "id_token",
+  "clientSecret",
+  "client_secret",
+  "apiKey",
+  "api_key",
+];
+
+const DEFAULT_LEVELS = {
+  request: "debug",
+  response: "info",
+  retry: "warn",
+  error: "error",
+} as const;
+
+// Whether a key path (array indices left out) matches a redaction path
+function matchesPath(pattern: string[], keys: string[]): boolean {
+  const key = keys[keys.length - 1];
+  if (pattern.length === 1) return pattern[0] === "*" || pattern[0] === key;
+  return (
+    pattern.length === keys.length &&
+    pattern.every((segment, i) => segment === "*" || segment === keys[i])
+  );
+}
+
+// Plain objects, including ones created in another realm (e.g. by structuredClone)
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (Object.prototype.toString.call(value) !== "[object Object]") return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === null || Object.getPrototypeOf(prototype) === null;
+}
+
+function redactValue(
+  value: any,
+  patterns: string[][],
+  replacement: string,
+  keys: string[] = [],
+): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, patterns, replacement, keys));
+  }
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => {
+      const path = [...keys, key.toLowerCase()];
+      return [
+        key,
+        patterns.some((pattern) => matchesPath(pattern, path))
+          ? replacement
+          : redactValue(item, patterns, replacement, path),
+      ];
+    }),
+  );
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// Writes request logs for AxiosApi with secrets redacted
+export class RequestLogger {
+  private logger: Logger;
+  private options: LoggerConfig;
+  private headers: Set<string>;
+  private paths: string[][];
+  private queryNames = new Set<string>(); // Query params set by auth strategies
+  private replacement: string;
+  private sentAt = new WeakMap<object, number>(); // By attempt config
+
+  constructor(logger: Logger | LoggerConfig, authTokenKey: string) {
+    this.options = "logger" in logger ? logger : { logger };
+    this.logger = this.options.logger;
+    this.headers = new Set(
+      [
+        authTokenKey,
+        ...DEFAULT_REDACTED_HEADERS,
+        ...(this.options.redactHeaders ?? []),
+      ].map((name) => name.toLowerCase()),
+    );
+    this.paths = [
+      ...(this.options.redactDefaultPaths === false
+        ? []
+        : DEFAULT_REDACTED_PATHS),
+      ...(this.options.redactPaths ?? []),
+    ].map((path) => path.toLowerCase().split("."));
+    this.replacement = this.options.replacement ?? "[REDACTED]";
+  }
+
+  // Also redact the headers and query params a strategy puts its secret in
+  redactAuth(strategy: AuthStrategy | undefined): void {
+    strategy?.secrets?.headers?.forEach((name) =>
+      this.headers.add(name.toLowerCase()),
+    );
+    strategy?.secrets?.query?.forEach((name) =>
+      this.queryNames.add(name.toLowerCase()),
+    );
+  }
+
+  request(config: InternalAxiosRequestConfig, requestId: string): void {
+    this.sentAt.set(config, Date.now());
+    const method = (config.method ?? "GET").toUpperCase();
+    const url = this.redactUrl(axios.getUri(config));
+    const headers = this.redactHeaders(config.headers.toJSON(true));
+
+    this.write(this.level("request"), `→ ${method} ${url}`, {
+      requestId,
+      method,
+      url,
+      headers,
+      body: this.preview(config.data),
+    });
+
+    if (this.options.curl !== false) {
+      this.write(
+        "debug",
+        this.curl(method, url, headers, this.redactBody(config.data)),
+        { requestId },
+      );
+    }
+  }
+
+  response(response: AxiosResponse, requestId: string): void {
+    const startedAt = this.sentAt.get(response.config);
+    const method = (response.config.method ?? "GET").toUpperCase();
+    const url = this.redactUrl(axios.getUri(response.config));
+    const duration = startedAt === undefined ? 0 : Date.now() - startedAt;
+
+    this.write(
+      this.level("response"),
+      `← ${response.status} ${method} ${url} (${duration}ms)`,
+      {
+        requestId,
+        method,
+        url,
+        status: response.status,
+        duration,
+        headers: this.redactHeaders({ ...response.headers }),
+        body: this.preview(response.data),
+      },
+    );
+  }
+
+  retry(event: RequestRetryEvent): void {
+    const url = this.redactUrl(event.url);
+    this.write(
+      this.level("retry"),
+      `↻ ${event.method} ${url} attempt ${event.attempt} failed, retrying in ${event.delay}ms`,
+      { ...event, url },
+    );
+  }
+
+  error(event: RequestErrorEvent): void {
+    const url = this.redactUrl(event.url);
+    const { error } = event;
+    const data = {
+      requestId: event.requestId,
+      method: event.method,
+      url,
+      status: event.status,
+      code: error.code,
+      message: error.message,
+      duration: event.duration,
+      attempts: event.attempts,
+      body: this.preview(error.data),
+    };
+    const message = `✖ ${event.method} ${url} failed: ${error.message}`;
+
+    this.write(
+      isCancelledError(error) ? "debug" : this.level("error"),
+      message,
+      data,
+    );
+  }
+
+  private level(event: keyof typeof DEFAULT_LEVELS): LogLevel | "silent" {
+    return this.options.levels?.[event] ?? DEFAULT_LEVELS[event];
+  }
+
+  private write(
+    level: LogLevel | "silent",
+    message: string,
+    data: Record<string, unknown>,
+  ): void {
+    if (level === "silent") return;
+
+    try {
+      if (this.options.format === "pino") {
+        this.logger[level](data, message);
+      } else {
+        this.logger[level](message, data);
+      }
+    } catch {
+      // Logging must not break the request it describes
+    }
+  }
+
+  private redactHeaders(headers: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(headers)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([name, value]) => [
+          name,
+          this.headers.has(name.toLowerCase()) ? this.replacement : value,
+        ]),
+    );
+  }
+
+  // Query params are redacted when their name is a single-key redaction path or an auth param
+  private redactUrl(url: string): string {
+    const queryStart = url.indexOf("?");
+    if (queryStart === -1) return url;
+
+    const params = new URLSearchParams(url.slice(queryStart + 1));
+    const names = Array.from(new Set(params.keys())).filter(
+      (name) =>
+        this.queryNames.has(name.toLowerCase()) ||
+        this.paths.some((path) => matchesPath(path, [name.toLowerCase()])),
+    );
+    if (!names.length) return url;
+
+    names.forEach((name) => params.set(name, this.replacement));
+    return `${url.slice(0, queryStart)}?${params}`;
+  }
+
+  private redactBody(body: unknown): unknown {
+    if (typeof body === "string") {
+      try {
+        return JSON.stringify(
+          redactValue(JSON.parse(body), this.paths, this.replacement),
+        );
+      } catch {
+        return body;
+      }
+    }
+    return redactValue(body, this.paths, this.replacement);
+  }
+
+  // Redacted body as text, cut to the preview length
+  private preview(body: unknown): string | undefined {
+    const limit = this.options.bodyPreview ?? 1000;
+    if (limit <= 0 || body === undefined || body === null || body === "") {
+      return undefined;
+    }
+    const text = this.bodyText(this.redactBody(body));
+    return text.length > limit
+      ? `${text.slice(0, limit)}… (${text.length - limit} more characters)`
+      : text;
+  }
+
+  private bodyText(body: unknown): string {
+    if (typeof body === "string") return body;
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+      return `[binary ${body.byteLength} bytes]`;
+    }
+    if (body instanceof URLSearchParams) {
+      return this.redactUrl(`?${body}`).slice(1);
+    }
+    if (typeof FormData !== "undefined" && body instanceof FormData) {
+      return "[FormData]";
+    }
+    return JSON.stringify(body) ?? String(body);
+  }
+
+  private curl(
+    method: string,
+    url: string,
+    headers: Record<string, any>,
+    body: unknown,
+  ): string {
+    const parts = ["curl"];
+    if (method !== "GET") parts.push("-X", method);
+    parts.push(quote(url));
+
+    const hasContentType = Object.keys(headers).some(
+      (name) => name.toLowerCase() === "content-type",
+    );
+    if ((Array.isArray(body) || isPlainObject(body)) && !hasContentType) {
+      headers = { ...headers, "Content-Type": "application/json" };
+    }
+    for (const [name, value] of Object.entries(headers)) {
+      parts.push("-H", quote(`${name}: ${value}`));
+    }
+
+    if (body !== undefined && body !== null && body !== "") {
+      parts.push("--data-raw", quote(this.bodyText(body)));
+    }
+    return parts.join(" ");
+  }
+}
@@ -0,0 +1,145 @@
+// Node-only entry point: finds and loads better-axios.config.* files.
+// Kept out of the main entry so browser bundles never reach fs or the TypeScript compiler.
+import { AxiosApi } from "./wrapper";
+import {
+  BetterAxiosConfig,
+  ConfigFileOptions,
+  ResolvedProfile,
+  resolveProfile,
+} from "./config";
+
+export {
+  defineConfig,
+  resolveProfile,
+  type BetterAxiosConfig,
+  type ConfigFileOptions,
+  type ProfileConfig,
+  type ProfileCredentials,
+  type ResolvedProfile,
+} from "./config";
+
+export const CONFIG_FILES = [
+  "better-axios.config.ts",
+  "better-axios.config.js",
+  "better-axios.config.cjs",
+  "better-axios.config.mjs",
+  "better-axios.config.json",
+];
+
+// Walk up from `cwd` to the nearest config file
+export async function findConfigFile(
+  cwd: string = process.cwd(),
+): Promise<string | null> {
+  const fs = await import("fs");
+  const path = await import("path");
+
+  let dir = path.resolve(cwd);
+  for (;;) {
+    for (const name of CONFIG_FILES) {
+      const file = path.join(dir, name);
+      if (fs.existsSync(file)) return file;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+// Compile a TypeScript config with the project's own compiler
+async function loadTypeScriptConfig(file: string): Promise<unknown> {
+  const fs = await import("fs");
+  const path = await import("path");
+  const { default: Module } = await import("module");
+
+  let ts: typeof import("typescript");
+  try {
+    ts = await import("typescript");
+  } catch {
+    throw new Error(`Loading ${file} requires the "typescript" package`);
+  }
+
+  const source = await fs.promises.readFile(file, "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true,
+    },
+    fileName: file,
+  });
+
+  const compiled: any = new Module(file);
+  compiled.filename = file;
+  compiled.paths = (Module as any)._nodeModulePaths(path.dirname(file));
+  compiled._compile(outputText, file);
+  return compiled.exports;
+}
+
+// The CLI is built as CommonJS, where import() becomes require() and cannot load ES modules
+async function importConfigModule(file: string): Promise<unknown> {
+  try {
+    return await import(file);
+  } catch (error: any) {
+    if (error?.code !== "ERR_REQUIRE_ESM") throw error;
+    const { pathToFileURL } = await import("url");
+    const nativeImport = new Function("specifier", "return import(specifier)");
+    return nativeImport(pathToFileURL(file).href);
+  }
+}
+
+export async function loadConfigFile(file: string): Promise<BetterAxiosConfig> {
+  const fs = await import("fs");
+  const path = await import("path");
+  const absolute = path.resolve(file);
+
+  let loaded: any;
+  if (/\.json$/i.test(absolute)) {
+    loaded = JSON.parse(await fs.promises.readFile(absolute, "utf8"));
+  } else if (/\.ts$/i.test(absolute)) {
+    loaded = await loadTypeScriptConfig(absolute);
+  } else {
+    loaded = await importConfigModule(absolute);
+  }
+
+  const config = loaded?.default ?? loaded;
+  if (!config || typeof config.profiles !== "object") {
+    throw new Error(`${file} is not a better-axios config: missing "profiles"`);
+  }
+  return config;
+}
+
+// Find, load and resolve a profile in one step
+export async function loadProfile(
+  options: ConfigFileOptions = {},
+): Promise<ResolvedProfile> {
+  const path = await import("path");
+  const file = options.path
+    ? path.resolve(options.cwd ?? process.cwd(), options.path)
+    : await findConfigFile(options.cwd);
+  if (!file) {
+    throw new Error(
+      `No config file found, expected one of: ${CONFIG_FILES.join(", ")}`,
+    );
+  }
+  return resolveProfile(await loadConfigFile(file), options);
+}
+
+// Create a client from a profile in better-axios.config.{json,js,ts}
+export async function createClientFromConfigFile(
+  options: ConfigFileOptions = {},
+): Promise<AxiosApi> {
+  const { config, authToken } = await loadProfile(options);
+  const api = new AxiosApi(config);
+  if (authToken) await api.setAuthToken(authToken);
+  return api;
+}
+
+// Shorthand for `createClientFromConfigFile({ profile })`
+export function createClientFromProfile(
+  profile?: string,
+  options: Omit<ConfigFileOptions, "profile"> = {},
+): Promise<AxiosApi> {
+  return createClientFromConfigFile({ ...options, profile });
+}
+
+AxiosApi.fromConfigFile = createClientFromConfigFile;
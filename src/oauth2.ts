@@ -0,0 +1,190 @@
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { AuthContext, AuthStrategy, toBase64 } from "./auth";
+
+export interface OAuth2Config {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  grantType?: "client_credentials" | "refresh_token"; // Initial grant (default: 'client_credentials')
+  refreshToken?: string; // Refresh token to start with for the refresh_token grant
+  scopes?: string[];
+  clientAuthentication?: "body" | "basic"; // How client credentials are sent (default: 'body')
+  extraParams?: Record<string, string>; // Additional token request parameters, e.g. `audience`
+  expirySkew?: number; // Seconds before `expires_in` at which the token is renewed (default: 30)
+  timeout?: number;
+}
+
+export interface OAuth2Token {
+  accessToken: string;
+  tokenType: string;
+  expiresAt: number | null; // Epoch ms, null if the server sent no `expires_in`
+  refreshToken?: string;
+  scope?: string;
+}
+
+export class OAuth2Error extends Error {
+  constructor(
+    public error: string,
+    public description?: string,
+    public statusCode?: number,
+  ) {
+    super(`OAuth2 token request failed: ${description || error}`);
+    this.name = "OAuth2Error";
+  }
+}
+
+// Fetches and caches OAuth2 access tokens. Use it as an AxiosApi auth strategy.
+export class OAuth2Auth implements AuthStrategy {
+  private config: OAuth2Config;
+  private http: AxiosInstance;
+  private token: OAuth2Token | null = null;
+  private pending: Promise<OAuth2Token> | null = null;
+
+  constructor(config: OAuth2Config) {
+    this.config = {
+      grantType: "client_credentials",
+      clientAuthentication: "body",
+      expirySkew: 30,
+      timeout: 10000,
+      ...config,
+    };
+    this.http = axios.create({ timeout: this.config.timeout });
+  }
+
+  async apply(
+    config: InternalAxiosRequestConfig,
+    context: AuthContext,
+  ): Promise<void> {
+    const accessToken = await this.getAccessToken();
+    config.headers.set(
+      context.tokenKey,
+      `${context.tokenPrefix}${accessToken}`,
+    );
+  }
+
+  // Cached access token, fetching a new one once it is about to expire
+  async getAccessToken(): Promise<string> {
+    if (this.token && !this.isExpired(this.token)) {
+      return this.token.accessToken;
+    }
+    return this.refresh();
+  }
+
+  // Force a new token, using the refresh_token grant when a refresh token is available
+  async refresh(): Promise<string> {
+    if (!this.pending) {
+      this.pending = this.requestToken().finally(() => {
+        this.pending = null;
+      });
+    }
+    this.token = await this.pending;
+    return this.token.accessToken;
+  }
+
+  getToken(): OAuth2Token | null {
+    return this.token;
+  }
+
+  invalidate(): void {
+    this.token = null;
+  }
+
+  private isExpired(token: OAuth2Token): boolean {
+    if (token.expiresAt === null) return false;
+    return token.expiresAt <= Date.now() + this.config.expirySkew! * 1000;
+  }
+
+  private async requestToken(): Promise<OAuth2Token> {
+    const refreshToken = this.token?.refreshToken ?? this.config.refreshToken;
+
+    if (refreshToken) {
+      try {
+        return await this.grant(
+          { grant_type: "refresh_token", refresh_token: refreshToken },
+          refreshToken,
+        );
+      } catch (error) {
+        // An expired or revoked refresh token; client credentials can still get a new token
+        const rejected =
+          error instanceof OAuth2Error &&
+          !!error.statusCode &&
+          error.statusCode < 500;
+        if (this.config.grantType !== "client_credentials" || !rejected) {
+          throw error;
+        }
+        this.token = null;
+        this.config.refreshToken = undefined;
+      }
+    } else if (this.config.grantType !== "client_credentials") {
+      throw new OAuth2Error(
+        "invalid_grant",
+        "No refresh token available for the refresh_token grant",
+      );
+    }
+
+    return this.grant({ grant_type: "client_credentials" });
+  }
+
+  private async grant(
+    grantParams: Record<string, string>,
+    refreshToken?: string,
+  ): Promise<OAuth2Token> {
+    const params = new URLSearchParams(this.config.extraParams);
+    for (const [key, value] of Object.entries(grantParams)) {
+      params.set(key, value);
+    }
+
+    if (this.config.scopes?.length) {
+      params.set("scope", this.config.scopes.join(" "));
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+    if (this.config.clientAuthentication === "basic") {
+      const credentials = `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret ?? "")}`;
+      headers.Authorization = `Basic ${toBase64(credentials)}`;
+    } else {
+      params.set("client_id", this.config.clientId);
+      if (this.config.clientSecret) {
+        params.set("client_secret", this.config.clientSecret);
+      }
+    }
+
+    try {
+      const { data } = await this.http.post(
+        this.config.tokenUrl,
+        params.toString(),
+        { headers },
+      );
+      if (!data?.access_token) {
+        throw new OAuth2Error(
+          "invalid_response",
+          "Token response has no access_token",
+        );
+      }
+
+      // Some servers send expires_in as a string
+      const expiresIn = parseFloat(data.expires_in);
+      return {
+        accessToken: data.access_token,
+        tokenType: data.token_type ?? "Bearer",
+        expiresAt: isFinite(expiresIn) ? Date.now() + expiresIn * 1000 : null,
+        // Servers may omit the refresh token on refresh; keep the previous one
+        refreshToken: data.refresh_token ?? refreshToken,
+        scope: data.scope,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        const body = error.response.data as any;
+        throw new OAuth2Error(
+          body?.error ?? "request_failed",
+          body?.error_description ?? error.message,
+          error.response.status,
+        );
+      }
+      throw error;
+    }
+  }
+}
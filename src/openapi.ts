@@ -0,0 +1,691 @@
+import { promises as fs } from "fs";
+import path from "path";
+import yaml from "js-yaml";
+
+// Subset of the OpenAPI 3.x document model used by the generator
+export interface SchemaObject {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+}
+
+export interface ParameterObject {
+  $ref?: string;
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required?: boolean;
+  description?: string;
+  schema?: SchemaObject;
+}
+
+export interface MediaTypeObject {
+  schema?: SchemaObject;
+}
+
+export interface RequestBodyObject {
+  $ref?: string;
+  required?: boolean;
+  content?: Record<string, MediaTypeObject>;
+}
+
+export interface ResponseObject {
+  $ref?: string;
+  description?: string;
+  content?: Record<string, MediaTypeObject>;
+}
+
+export type SecurityRequirement = Record<string, string[]>;
+
+export interface OperationObject {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  parameters?: ParameterObject[];
+  requestBody?: RequestBodyObject;
+  responses?: Record<string, ResponseObject>;
+  security?: SecurityRequirement[];
+}
+
+export interface SecuritySchemeObject {
+  type: "http" | "apiKey" | "oauth2" | "openIdConnect" | "mutualTLS";
+  scheme?: string; // For `http`: "bearer" | "basic"
+  name?: string; // For `apiKey`
+  in?: "header" | "query" | "cookie"; // For `apiKey`
+  flows?: Record<
+    string,
+    { tokenUrl?: string; scopes?: Record<string, string> }
+  >;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  servers?: {
+    url: string;
+    variables?: Record<string, { default: string }>;
+  }[];
+  paths?: Record<
+    string,
+    Record<string, OperationObject | ParameterObject[] | string>
+  >;
+  components?: {
+    schemas?: Record<string, SchemaObject>;
+    parameters?: Record<string, ParameterObject>;
+    requestBodies?: Record<string, RequestBodyObject>;
+    responses?: Record<string, ResponseObject>;
+    securitySchemes?: Record<string, SecuritySchemeObject>;
+  };
+  security?: SecurityRequirement[];
+}
+
+export interface GenerateOptions {
+  className?: string; // Name of the generated client class (default: from `info.title`)
+  importPath?: string; // Module the client imports AxiosApi from (default: this package)
+  specName?: string; // Shown in the generated file header
+}
+
+export interface GeneratedFile {
+  path: string; // Relative to the output directory
+  content: string;
+}
+
+export interface GenerateResult {
+  files: GeneratedFile[];
+  warnings: string[]; // Operations or features that were skipped
+}
+
+export const DEFAULT_IMPORT_PATH = "@parthkapoor-dev/better-axios";
+
+const METHODS = ["get", "post", "put", "patch", "delete"];
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export async function loadSpec(specPath: string): Promise<OpenApiDocument> {
+  const source = await fs.readFile(specPath, "utf8");
+  const spec = (
+    path.extname(specPath).toLowerCase() === ".json"
+      ? JSON.parse(source)
+      : yaml.load(source)
+  ) as OpenApiDocument;
+
+  if (!spec || typeof spec.openapi !== "string") {
+    throw new Error(`${specPath} is not an OpenAPI document`);
+  }
+  if (!spec.openapi.startsWith("3.")) {
+    throw new Error(
+      `Unsupported OpenAPI version ${spec.openapi}, only 3.x is supported`,
+    );
+  }
+  return spec;
+}
+
+export async function writeGeneratedFiles(
+  outDir: string,
+  files: GeneratedFile[],
+): Promise<void> {
+  await fs.mkdir(outDir, { recursive: true });
+  for (const file of files) {
+    await fs.writeFile(path.join(outDir, file.path), file.content, "utf8");
+  }
+}
+
+function pascalCase(value: string): string {
+  const name = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function camelCase(value: string): string {
+  const name = pascalCase(value);
+  return name[0].toLowerCase() + name.slice(1);
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+function propertyAccess(object: string, name: string): string {
+  return IDENTIFIER.test(name)
+    ? `${object}.${name}`
+    : `${object}[${JSON.stringify(name)}]`;
+}
+
+function docComment(text: string | undefined, indent: string): string {
+  if (!text) return "";
+  const lines = text.trim().replace(/\*\//g, "*\\/").split("\n");
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`.trimEnd()).join("\n")}\n${indent} */\n`;
+}
+
+function isJsonMediaType(mediaType: string): boolean {
+  return mediaType === "application/json" || mediaType.endsWith("+json");
+}
+
+class Generator {
+  private warnings: string[] = [];
+  private schemaNames = new Map<string, string>();
+
+  constructor(
+    private spec: OpenApiDocument,
+    private options: GenerateOptions,
+  ) {
+    for (const name of Object.keys(spec.components?.schemas ?? {})) {
+      this.schemaNames.set(name, pascalCase(name));
+    }
+  }
+
+  generate(): GenerateResult {
+    const header = `// Generated by axios-wrapper${
+      this.options.specName ? ` from ${this.options.specName}` : ""
+    }. Do not edit by hand.\n`;
+
+    return {
+      files: [
+        { path: "types.ts", content: header + this.generateTypes() },
+        { path: "client.ts", content: header + this.generateClient() },
+        {
+          path: "index.ts",
+          content: `${header}export * from "./types";\nexport * from "./client";\n`,
+        },
+      ],
+      warnings: this.warnings,
+    };
+  }
+
+  // Resolve a local `#/components/...` reference
+  private resolve<T extends { $ref?: string }>(object: T): T {
+    let current: any = object;
+    const seen = new Set<string>();
+    while (current?.$ref) {
+      if (seen.has(current.$ref) || !current.$ref.startsWith("#/")) {
+        throw new Error(`Cannot resolve reference ${current.$ref}`);
+      }
+      seen.add(current.$ref);
+      current = current.$ref
+        .slice(2)
+        .split("/")
+        .map((part: string) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+        .reduce((node: any, key: string) => node?.[key], this.spec);
+    }
+    if (!current) throw new Error(`Cannot resolve reference ${object.$ref}`);
+    return current;
+  }
+
+  private typeFor(schema: SchemaObject | undefined, indent = ""): string {
+    if (!schema) return "unknown";
+
+    if (schema.$ref) {
+      const match = /^#\/components\/schemas\/([^/]+)$/.exec(schema.$ref);
+      const name = match && this.schemaNames.get(match[1]);
+      return name ?? this.typeFor(this.resolve(schema), indent);
+    }
+
+    const type = this.baseTypeFor(schema, indent);
+    return schema.nullable && type !== "null" ? `${type} | null` : type;
+  }
+
+  private baseTypeFor(schema: SchemaObject, indent: string): string {
+    const union = (schemas: SchemaObject[], separator: string) =>
+      schemas
+        .map((item) => {
+          const type = this.typeFor(item, indent);
+          return /[|&]/.test(type) && !type.startsWith("{")
+            ? `(${type})`
+            : type;
+        })
+        .join(separator);
+
+    if (schema.allOf) return union(schema.allOf, " & ");
+    if (schema.oneOf) return union(schema.oneOf, " | ");
+    if (schema.anyOf) return union(schema.anyOf, " | ");
+    if (schema.const !== undefined) return JSON.stringify(schema.const);
+    if (schema.enum) {
+      return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+    }
+
+    if (Array.isArray(schema.type)) {
+      return schema.type
+        .map((type) => this.baseTypeFor({ ...schema, type }, indent))
+        .join(" | ");
+    }
+
+    switch (schema.type) {
+      case "string":
+        return schema.format === "binary" ? "Blob" : "string";
+      case "integer":
+      case "number":
+        return "number";
+      case "boolean":
+        return "boolean";
+      case "null":
+        return "null";
+      case "array": {
+        const item = this.typeFor(schema.items, indent);
+        return /^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+      }
+    }
+
+    if (schema.type === "object" || schema.properties) {
+      return this.objectType(schema, indent);
+    }
+    return "unknown";
+  }
+
+  private objectType(schema: SchemaObject, indent: string): string {
+    const inner = `${indent}  `;
+    const required = new Set(schema.required ?? []);
+    const lines = Object.entries(schema.properties ?? {}).map(
+      ([name, property]) =>
+        `${docComment(property.description, inner)}${inner}${propertyKey(name)}${
+          required.has(name) ? "" : "?"
+        }: ${this.typeFor(property, inner)};`,
+    );
+
+    const extra = schema.additionalProperties;
+    if (extra) {
+      const type = extra === true ? "unknown" : this.typeFor(extra, inner);
+      lines.push(`${inner}[key: string]: ${type};`);
+    }
+
+    if (!lines.length) return "Record<string, unknown>";
+    return `{\n${lines.join("\n")}\n${indent}}`;
+  }
+
+  private generateTypes(): string {
+    const declarations = Object.entries(
+      this.spec.components?.schemas ?? {},
+    ).map(([name, schema]) => {
+      const typeName = this.schemaNames.get(name)!;
+      const type = this.typeFor({ ...schema, description: undefined });
+      const doc = docComment(schema.description, "");
+      return type.startsWith("{") && !schema.nullable
+        ? `${doc}export interface ${typeName} ${type}\n`
+        : `${doc}export type ${typeName} = ${type};\n`;
+    });
+    return declarations.length
+      ? `\n${declarations.join("\n")}`
+      : "\nexport {};\n";
+  }
+
+  private generateClient(): string {
+    const className =
+      this.options.className ??
+      `${pascalCase(this.spec.info?.title ?? "Api") || "Api"}Client`;
+    const importPath = this.options.importPath ?? DEFAULT_IMPORT_PATH;
+    const auth = this.generateAuth();
+    const schemaTypes = [...this.schemaNames.values()];
+    const methods = this.generateMethods(auth.names, auth.defaultScheme);
+
+    const imports = [
+      "AxiosApi",
+      "type AxiosApiConfig",
+      "type ApiResponse",
+      "type RequestConfig",
+      ...auth.imports,
+    ];
+
+    return [
+      `\nimport {\n${imports.map((name) => `  ${name},`).join("\n")}\n} from ${JSON.stringify(importPath)};\n`,
+      schemaTypes.length
+        ? `import type {\n${schemaTypes.map((name) => `  ${name},`).join("\n")}\n} from "./types";\n`
+        : "",
+      `\nexport const BASE_URL = ${JSON.stringify(this.baseURL())};\n`,
+      auth.code,
+      `\nexport interface ${className}Options extends Omit<AxiosApiConfig, "baseURL"> {\n`,
+      `  baseURL?: string; // Defaults to the first server in the spec\n`,
+      auth.names.size ? `  security?: SecurityOptions;\n` : "",
+      `}\n`,
+      `\nexport class ${className} {\n`,
+      `  readonly api: AxiosApi;\n`,
+      auth.names.size
+        ? `  private readonly auth: Record<SecuritySchemeName, AuthStrategy>;\n`
+        : "",
+      `\n  constructor(options: ${className}Options = {}) {\n`,
+      auth.names.size
+        ? `    const { security = {}, ...config } = options;\n` +
+          `    this.auth = createAuthStrategies(security);\n` +
+          `    this.api = new AxiosApi({\n` +
+          `      baseURL: BASE_URL,\n` +
+          (auth.defaultScheme
+            ? `      authStrategy: this.auth[${JSON.stringify(auth.defaultScheme)}],\n`
+            : "") +
+          `      ...config,\n` +
+          `    });\n`
+        : `    this.api = new AxiosApi({ baseURL: BASE_URL, ...options });\n`,
+      `  }\n`,
+      methods.join(""),
+      `}\n`,
+    ].join("");
+  }
+
+  private baseURL(): string {
+    const server = this.spec.servers?.[0];
+    if (!server) return "";
+    return server.url.replace(
+      /\{([^}]+)\}/g,
+      (match, name: string) => server.variables?.[name]?.default ?? match,
+    );
+  }
+
+  // Map each security scheme to an AuthStrategy factory
+  private generateAuth() {
+    const schemes = Object.entries(
+      this.spec.components?.securitySchemes ?? {},
+    ).filter(([name, scheme]) => {
+      const supported =
+        (scheme.type === "apiKey" && scheme.in !== "cookie") ||
+        scheme.type === "http" ||
+        scheme.type === "oauth2" ||
+        scheme.type === "openIdConnect";
+      if (!supported) {
+        this.warnings.push(
+          `Security scheme "${name}" (${scheme.type}${scheme.in ? ` in ${scheme.in}` : ""}) is not supported`,
+        );
+      }
+      return supported;
+    });
+
+    const names = new Set(schemes.map(([name]) => name));
+    if (!schemes.length) {
+      return { names, imports: [], code: "", defaultScheme: undefined };
+    }
+
+    const imports = new Set(["type AuthStrategy"]);
+    const options: string[] = [];
+    const strategies: string[] = [];
+
+    for (const [name, scheme] of schemes) {
+      const key = propertyKey(name);
+      const value = propertyAccess("security", name);
+
+      if (scheme.type === "apiKey") {
+        imports.add("apiKeyAuth");
+        options.push(
+          `  ${key}?: string; // Falls back to the token set with setAuthToken()`,
+        );
+        strategies.push(
+          `    ${key}: apiKeyAuth({\n` +
+            `      in: ${JSON.stringify(scheme.in)},\n` +
+            `      name: ${JSON.stringify(scheme.name)},\n` +
+            `      key: ${value},\n` +
+            `    }),`,
+        );
+      } else if (
+        scheme.type === "http" &&
+        scheme.scheme?.toLowerCase() === "basic"
+      ) {
+        imports.add("basicAuth").add("bearerAuth");
+        options.push(`  ${key}?: { username: string; password: string };`);
+        strategies.push(
+          `    ${key}: ${value}\n` +
+            `      ? basicAuth(${value})\n` +
+            `      : bearerAuth({ prefix: "Basic " }),`,
+        );
+      } else if (scheme.type === "oauth2" && this.tokenFlow(scheme)) {
+        const flow = this.tokenFlow(scheme)!;
+        imports.add("OAuth2Auth").add("bearerAuth").add("type OAuth2Config");
+        options.push(`  ${key}?: Omit<OAuth2Config, "tokenUrl">;`);
+        strategies.push(
+          `    ${key}: ${value}\n` +
+            `      ? new OAuth2Auth({\n` +
+            `          tokenUrl: ${JSON.stringify(flow.tokenUrl)},\n` +
+            `          ...${value},\n` +
+            `        })\n` +
+            `      : bearerAuth(),`,
+        );
+      } else {
+        // Bearer tokens, implicit OAuth2 flows and OpenID Connect use the stored token
+        imports.add("bearerAuth");
+        strategies.push(`    ${key}: bearerAuth(),`);
+      }
+    }
+
+    const code = [
+      `\nexport type SecuritySchemeName = ${schemes
+        .map(([name]) => JSON.stringify(name))
+        .join(" | ")};\n`,
+      `\n// Credentials for the security schemes declared in the spec\n`,
+      `export interface SecurityOptions {\n${options.join("\n")}${options.length ? "\n" : ""}}\n`,
+      `\nfunction createAuthStrategies(\n  security: SecurityOptions,\n): Record<SecuritySchemeName, AuthStrategy> {\n`,
+      `  return {\n${strategies.join("\n")}\n  };\n}\n`,
+    ].join("");
+
+    const defaultScheme = this.firstScheme(this.spec.security, names);
+    return { names, imports: [...imports], code, defaultScheme };
+  }
+
+  private tokenFlow(scheme: SecuritySchemeObject) {
+    return Object.values(scheme.flows ?? {}).find((flow) => flow.tokenUrl);
+  }
+
+  private firstScheme(
+    security: SecurityRequirement[] | undefined,
+    names: Set<string>,
+  ): string | undefined {
+    for (const requirement of security ?? []) {
+      const name = Object.keys(requirement).find((scheme) => names.has(scheme));
+      if (name) return name;
+    }
+    return undefined;
+  }
+
+  private generateMethods(
+    schemeNames: Set<string>,
+    defaultScheme: string | undefined,
+  ): string[] {
+    const usedNames = new Set<string>();
+    const methods: string[] = [];
+
+    for (const [route, item] of Object.entries(this.spec.paths ?? {})) {
+      const shared = (item.parameters as ParameterObject[] | undefined) ?? [];
+
+      for (const [method, value] of Object.entries(item)) {
+        if (method === "parameters" || typeof value !== "object") continue;
+        const operation = value as OperationObject;
+
+        if (!METHODS.includes(method)) {
+          this.warnings.push(
+            `Skipped ${method.toUpperCase()} ${route}: method not supported`,
+          );
+          continue;
+        }
+
+        let name = camelCase(
+          operation.operationId ?? this.fallbackName(method, route),
+        );
+        for (let i = 2; usedNames.has(name); i++) {
+          name = `${name.replace(/\d+$/, "")}${i}`;
+        }
+        usedNames.add(name);
+
+        methods.push(
+          this.generateMethod(name, method, route, operation, shared, {
+            defaultScheme,
+            schemeNames,
+          }),
+        );
+      }
+    }
+    return methods;
+  }
+
+  // GET /users/{id}/posts -> getUsersByIdPosts
+  private fallbackName(method: string, route: string): string {
+    const parts = route
+      .split("/")
+      .filter(Boolean)
+      .map((part) => (part.startsWith("{") ? `By ${part.slice(1, -1)}` : part));
+    return [method, ...parts].join(" ");
+  }
+
+  private generateMethod(
+    name: string,
+    method: string,
+    route: string,
+    operation: OperationObject,
+    shared: ParameterObject[],
+    auth: { defaultScheme?: string; schemeNames: Set<string> },
+  ): string {
+    // Operation-level parameters override path-level ones with the same name
+    const parameters = new Map<string, ParameterObject>();
+    for (const parameter of [...shared, ...(operation.parameters ?? [])]) {
+      const resolved = this.resolve(parameter);
+      parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+    }
+
+    const groups: Record<string, ParameterObject[]> = {
+      path: [],
+      query: [],
+      header: [],
+    };
+    for (const parameter of parameters.values()) {
+      if (groups[parameter.in]) {
+        groups[parameter.in].push(parameter);
+      } else {
+        this.warnings.push(
+          `Ignored ${parameter.in} parameter "${parameter.name}" of ${method.toUpperCase()} ${route}`,
+        );
+      }
+    }
+
+    const args: string[] = [];
+    let argsRequired = false;
+    const addGroup = (key: string, list: ParameterObject[]) => {
+      if (!list.length) return;
+      const required = list.some(
+        (parameter) => parameter.in === "path" || parameter.required,
+      );
+      argsRequired ||= required;
+      const fields = list.map(
+        (parameter) =>
+          `${docComment(parameter.description, "        ")}        ${propertyKey(parameter.name)}${
+            parameter.in === "path" || parameter.required ? "" : "?"
+          }: ${parameter.in === "header" ? "string" : this.typeFor(parameter.schema, "        ")};`,
+      );
+      args.push(
+        `      ${key}${required ? "" : "?"}: {\n${fields.join("\n")}\n      };`,
+      );
+    };
+    addGroup("params", groups.path);
+    addGroup("query", groups.query);
+    addGroup("headers", groups.header);
+
+    if (operation.requestBody) {
+      const body = this.resolve(operation.requestBody);
+      argsRequired ||= !!body.required;
+      args.push(
+        `      body${body.required ? "" : "?"}: ${this.bodyType(body, "      ")};`,
+      );
+    }
+
+    const responseType = this.responseType(operation);
+    const url = route.replace(/\{([^}]+)\}/g, (_, param: string) => {
+      return `\${encodeURIComponent(String(${propertyAccess("args.params", param)}))}`;
+    });
+    const urlArg = groups.path.length ? "url" : `\`${url}\``;
+
+    const defaults: string[] = [];
+    const security = operation.security ?? this.spec.security;
+    if (auth.schemeNames.size && security) {
+      const anonymous =
+        !security.length || security.some((r) => !Object.keys(r).length);
+      const scheme = this.firstScheme(security, auth.schemeNames);
+      if (anonymous || !scheme) {
+        defaults.push("useAuth: false");
+      } else if (scheme !== auth.defaultScheme) {
+        defaults.push(`authStrategy: this.auth[${JSON.stringify(scheme)}]`);
+      }
+    } else if (auth.schemeNames.size) {
+      defaults.push("useAuth: false");
+    }
+
+    const requestOptions = [
+      ...defaults,
+      `urlTemplate: ${JSON.stringify(route)}`,
+      "...config",
+      groups.query.length ? "params: args.query" : "",
+      groups.header.length
+        ? "headers: { ...config?.headers, ...args.headers }"
+        : "",
+      operation.requestBody ? "data: args.body" : "",
+    ].filter(Boolean);
+
+    const signature = args.length
+      ? `    args: {\n${args.join("\n")}\n    }${argsRequired ? "" : " = {}"},\n` +
+        `    config?: RequestConfig<${responseType}>,\n`
+      : `    config?: RequestConfig<${responseType}>,\n`;
+
+    const doc = [
+      operation.summary,
+      operation.description !== operation.summary ? operation.description : "",
+      operation.deprecated ? "@deprecated" : "",
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    return (
+      `\n${docComment(doc || `${method.toUpperCase()} ${route}`, "  ")}` +
+      `  ${name}(\n${signature}  ): Promise<ApiResponse<${responseType}>> {\n` +
+      (groups.path.length ? `    const url = \`${url}\`;\n` : "") +
+      `    return this.api.request<${responseType}>(${JSON.stringify(
+        method.toUpperCase(),
+      )}, ${urlArg}, {\n${requestOptions.map((option) => `      ${option},`).join("\n")}\n    });\n` +
+      `  }\n`
+    );
+  }
+
+  private bodyType(body: RequestBodyObject, indent: string): string {
+    const content = Object.entries(body.content ?? {});
+    const json = content.find(([mediaType]) => isJsonMediaType(mediaType));
+    if (json) return this.typeFor(json[1].schema, indent);
+    if (content.some(([mediaType]) => mediaType === "multipart/form-data")) {
+      return "FormData";
+    }
+    const form = content.find(
+      ([mediaType]) => mediaType === "application/x-www-form-urlencoded",
+    );
+    if (form) return this.typeFor(form[1].schema, indent);
+    return content.length ? "Blob" : "unknown";
+  }
+
+  private responseType(operation: OperationObject): string {
+    const success = Object.keys(operation.responses ?? {})
+      .filter((status) => /^2(\d\d|XX)$/i.test(status))
+      .sort();
+    if (!success.length) return "unknown";
+
+    for (const status of success) {
+      const response = this.resolve(operation.responses![status]);
+      const content = Object.entries(response.content ?? {});
+      if (!content.length) continue;
+      const json = content.find(([mediaType]) => isJsonMediaType(mediaType));
+      if (json) return this.typeFor(json[1].schema, "    ");
+      return content.some(([mediaType]) => mediaType.startsWith("text/"))
+        ? "string"
+        : "Blob";
+    }
+    return "void";
+  }
+}
+
+// Generate TypeScript types and a typed AxiosApi client from an OpenAPI document
+export function generateClient(
+  spec: OpenApiDocument,
+  options: GenerateOptions = {},
+): GenerateResult {
+  return new Generator(spec, options).generate();
+}
@@ -0,0 +1,71 @@
+import type { AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import type { ApiError } from "./errors";
+import type { ApiResponse, AxiosApi } from "./wrapper";
+
+// Per-request plugin options, keyed by plugin name. Plugins add their entry with declaration merging:
+// declare module "@parthkapoor-dev/better-axios" { interface PluginOptions { timing: { label: string } } }
+export interface PluginOptions {}
+
+export interface PluginContext<TOptions = unknown> {
+  api: AxiosApi;
+  requestId: string; // Also used in lifecycle events
+  method: string; // Upper case, e.g. 'GET'
+  url: string;
+  urlTemplate?: string; // From the request's `urlTemplate`, e.g. '/users/:id'
+  options?: TOptions; // This plugin's entry in the request's `pluginOptions`
+}
+
+export interface RetryInfo {
+  attempt: number; // The attempt that failed, starting at 1
+  delay: number; // Milliseconds until the next attempt
+  error: unknown;
+}
+
+export type Middleware<TOptions = unknown> = (
+  context: PluginContext<TOptions>,
+  next: () => Promise<ApiResponse>,
+) => Promise<ApiResponse>;
+
+// Hooks run in the order plugins were added
+export interface Plugin<TOptions = unknown> {
+  name: string; // Unique per client, also the key for per-request options
+  onRequest?: (
+    config: InternalAxiosRequestConfig,
+    context: PluginContext<TOptions>,
+  ) =>
+    | InternalAxiosRequestConfig
+    | void
+    | Promise<InternalAxiosRequestConfig | void>; // Before every attempt is sent
+  onResponse?: (
+    response: AxiosResponse,
+    context: PluginContext<TOptions>,
+  ) => AxiosResponse | void | Promise<AxiosResponse | void>; // After every successful attempt
+  onError?: (
+    error: ApiError,
+    context: PluginContext<TOptions>,
+  ) => void | Promise<void>; // Once per failed request, before the error handlers
+  onRetry?: (retry: RetryInfo, context: PluginContext<TOptions>) => void;
+  middleware?: Middleware<TOptions>; // Wraps the whole request, including retries and caching
+}
+
+// Typed helper for writing plugins
+export function definePlugin<TOptions = unknown>(
+  plugin: Plugin<TOptions>,
+): Plugin<TOptions> {
+  return plugin;
+}
+
+// Koa-style: each middleware calls `next()` to run the ones after it, and finally the request
+export function runMiddleware(
+  plugins: Plugin<any>[],
+  contextFor: (plugin: Plugin<any>) => PluginContext<any>,
+  request: () => Promise<ApiResponse>,
+): Promise<ApiResponse> {
+  const middleware = plugins.filter((plugin) => plugin.middleware);
+  const dispatch = (index: number): Promise<ApiResponse> => {
+    const plugin = middleware[index];
+    if (!plugin) return request();
+    return plugin.middleware!(contextFor(plugin), () => dispatch(index + 1));
+  };
+  return dispatch(0);
+}
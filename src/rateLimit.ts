@@ -0,0 +1,269 @@
+import { AxiosError, CanceledError, GenericAbortSignal } from "axios";
+import { parseRetryAfter } from "./retry";
+
+export interface RateLimitRule {
+  match?: string; // Host, e.g. 'api.example.com', or route pattern, e.g. '/users/:id' or '/search/*' (default: every host)
+  limit: number; // Requests per interval
+  interval: number; // Milliseconds
+  strategy?: "token-bucket" | "sliding-window"; // Default: 'token-bucket'
+}
+
+export interface RateLimitConfig {
+  limits?: RateLimitRule[]; // A request waits until every matching rule allows it
+  maxConcurrent?: number; // Requests in flight at once, the rest are queued by priority (default: unlimited)
+  adaptive?: boolean; // Pause a host on Retry-After or X-RateLimit-Remaining: 0 responses (default: true)
+}
+
+// Where a request goes, for matching rules
+export interface RateLimitTarget {
+  host: string;
+  path: string; // Without the baseURL and query
+  urlTemplate?: string;
+}
+
+interface Limiter {
+  wait(now: number): number; // Milliseconds until a request is allowed
+  take(now: number): void;
+}
+
+class TokenBucket implements Limiter {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    private limit: number,
+    private interval: number,
+  ) {
+    this.tokens = limit;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(
+      this.limit,
+      this.tokens + ((now - this.updatedAt) * this.limit) / this.interval,
+    );
+    this.updatedAt = now;
+  }
+
+  wait(now: number): number {
+    this.refill(now);
+    return this.tokens >= 1
+      ? 0
+      : Math.ceil(((1 - this.tokens) * this.interval) / this.limit);
+  }
+
+  take(now: number): void {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+}
+
+class SlidingWindow implements Limiter {
+  private sent: number[] = [];
+
+  constructor(
+    private limit: number,
+    private interval: number,
+  ) {}
+
+  wait(now: number): number {
+    while (this.sent.length && this.sent[0] <= now - this.interval) {
+      this.sent.shift();
+    }
+    return this.sent.length < this.limit
+      ? 0
+      : this.sent[0] + this.interval - now;
+  }
+
+  take(now: number): void {
+    this.sent.push(now);
+  }
+}
+
+interface Waiter {
+  target: RateLimitTarget;
+  priority: number;
+  resolve: (release: () => void) => void;
+  cleanup: () => void;
+}
+
+// Compile "/users/:id/*" into a RegExp
+function compileRoute(pattern: string): RegExp {
+  const source = pattern
+    .split(/(:\w+|\*)/)
+    .map((part) => {
+      if (part === "*") return ".*";
+      if (part.startsWith(":")) return "[^/]+";
+      return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}/?$`);
+}
+
+// Read X-RateLimit-Reset as epoch seconds or seconds from now
+function parseRateLimitReset(value: unknown, now: number): number | null {
+  const seconds = Number(value);
+  if (value === undefined || value === null || !isFinite(seconds)) return null;
+  return seconds > 1e9 ? Math.max(0, seconds * 1000 - now) : seconds * 1000;
+}
+
+// Queues requests until the concurrency and rate limits allow them
+export class RateLimiter {
+  private rules: { rule: RateLimitRule; route?: RegExp }[];
+  private limiters = new Map<string, Limiter>(); // By rule index and host
+  private pausedUntil = new Map<string, number>(); // By host
+  private queue: Waiter[] = [];
+  private active = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private config: RateLimitConfig) {
+    this.rules = (config.limits ?? []).map((rule) => ({
+      rule,
+      route: rule.match?.startsWith("/") ? compileRoute(rule.match) : undefined,
+    }));
+  }
+
+  // Wait for a slot; the returned function frees it once the response arrived
+  acquire(
+    target: RateLimitTarget,
+    options: {
+      priority?: number;
+      signal?: GenericAbortSignal;
+      timeout?: number;
+    } = {},
+  ): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      const { signal, timeout } = options;
+      const fail = (error: unknown) => {
+        const index = this.queue.indexOf(waiter);
+        if (index === -1) return;
+        this.queue.splice(index, 1);
+        waiter.cleanup();
+        reject(error);
+        this.drain();
+      };
+      const cancel = () => fail(new CanceledError());
+      const timer = timeout
+        ? setTimeout(
+            () =>
+              fail(
+                new AxiosError(
+                  `timeout of ${timeout}ms exceeded`,
+                  AxiosError.ECONNABORTED,
+                ),
+              ),
+            timeout,
+          )
+        : undefined;
+
+      const waiter: Waiter = {
+        target,
+        priority: options.priority ?? 0,
+        resolve,
+        cleanup: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener?.("abort", cancel);
+        },
+      };
+
+      if (signal?.aborted) {
+        waiter.cleanup();
+        reject(new CanceledError());
+        return;
+      }
+      signal?.addEventListener?.("abort", cancel);
+
+      // Higher priority first, FIFO within a priority
+      const index = this.queue.findIndex((w) => w.priority < waiter.priority);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, waiter);
+      this.drain();
+    });
+  }
+
+  // Adapt to the rate limit headers of a response
+  observe(host: string, status: number, headers: Record<string, any>): void {
+    if (this.config.adaptive === false) return;
+
+    const now = Date.now();
+    let pause: number | null = null;
+    if (status === 429 || status === 503) {
+      pause = parseRetryAfter(headers["retry-after"], now);
+    }
+    if (pause === null && Number(headers["x-ratelimit-remaining"]) === 0) {
+      pause = parseRateLimitReset(headers["x-ratelimit-reset"], now);
+    }
+    if (!pause) return;
+
+    this.pausedUntil.set(
+      host,
+      Math.max(this.pausedUntil.get(host) ?? 0, now + pause),
+    );
+    this.drain();
+  }
+
+  private limitersFor(target: RateLimitTarget): Limiter[] {
+    return this.rules.flatMap(({ rule, route }, index) => {
+      const matches = route
+        ? target.urlTemplate === rule.match || route.test(target.path)
+        : !rule.match || rule.match === target.host;
+      if (!matches) return [];
+
+      const key = `${index} ${target.host}`;
+      let limiter = this.limiters.get(key);
+      if (!limiter) {
+        limiter =
+          rule.strategy === "sliding-window"
+            ? new SlidingWindow(rule.limit, rule.interval)
+            : new TokenBucket(rule.limit, rule.interval);
+        this.limiters.set(key, limiter);
+      }
+      return [limiter];
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.drain();
+  }
+
+  // Start every queued request the limits allow, then wake up when the next one may
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const now = Date.now();
+    const maxConcurrent = this.config.maxConcurrent ?? Infinity;
+    let nextWake = Infinity;
+
+    for (const waiter of [...this.queue]) {
+      if (this.active >= maxConcurrent) break;
+
+      const limiters = this.limitersFor(waiter.target);
+      const wait = Math.max(
+        (this.pausedUntil.get(waiter.target.host) ?? 0) - now,
+        ...limiters.map((limiter) => limiter.wait(now)),
+      );
+      if (wait > 0) {
+        // Requests to other hosts or routes may still go
+        nextWake = Math.min(nextWake, wait);
+        continue;
+      }
+
+      limiters.forEach((limiter) => limiter.take(now));
+      this.queue.splice(this.queue.indexOf(waiter), 1);
+      waiter.cleanup();
+      this.active++;
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        this.release();
+      });
+    }
+
+    if (nextWake !== Infinity && this.active < maxConcurrent) {
+      this.timer = setTimeout(() => this.drain(), nextWake);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import axios, { CanceledError, GenericAbortSignal } from "axios";
+
+export interface RetryConfig {
+  maxAttempts?: number; // Total attempts including the first one (default: 3)
+  retryOn?: number[]; // Status codes that trigger a retry
+  retryOnNetworkError?: boolean; // Retry when no response was received (default: true)
+  retryOnTimeout?: boolean; // Retry when the request timed out (default: true)
+  methods?: string[]; // Methods that may be retried (default: idempotent methods)
+  baseDelay?: number; // Base backoff delay in ms (default: 300)
+  maxDelay?: number; // Upper bound for a single delay in ms (default: 30000)
+  jitter?: boolean; // Use full jitter on the backoff delay (default: true)
+  respectRetryAfter?: boolean; // Honor Retry-After response headers (default: true)
+}
+
+export type ResolvedRetryConfig = Required<RetryConfig>;
+
+export const DEFAULT_RETRY_CONFIG: ResolvedRetryConfig = {
+  maxAttempts: 3,
+  retryOn: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  retryOnTimeout: true,
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+  baseDelay: 300,
+  maxDelay: 30000,
+  jitter: true,
+  respectRetryAfter: true,
+};
+
+// Merge global and per-request retry options. `false` on either level disables retries.
+export function resolveRetryConfig(
+  globalRetry?: RetryConfig | boolean,
+  requestRetry?: RetryConfig | boolean,
+): ResolvedRetryConfig | null {
+  if (requestRetry === false) return null;
+  if (requestRetry === undefined && !globalRetry) return null;
+
+  return {
+    ...DEFAULT_RETRY_CONFIG,
+    ...(typeof globalRetry === "object" ? globalRetry : {}),
+    ...(typeof requestRetry === "object" ? requestRetry : {}),
+  };
+}
+
+function isTimeout(error: any): boolean {
+  return (
+    axios.isAxiosError(error) &&
+    (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT")
+  );
+}
+
+export function shouldRetry(
+  error: any,
+  method: string,
+  attempt: number,
+  retry: ResolvedRetryConfig,
+): boolean {
+  if (attempt >= retry.maxAttempts) return false;
+  if (!retry.methods.includes(method.toUpperCase())) return false;
+  if (axios.isCancel(error) || !axios.isAxiosError(error)) return false;
+
+  if (error.response) {
+    return retry.retryOn.includes(error.response.status);
+  }
+  if (isTimeout(error)) {
+    return retry.retryOnTimeout;
+  }
+  return retry.retryOnNetworkError;
+}
+
+// Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+export function parseRetryAfter(
+  value: unknown,
+  now: number = Date.now(),
+): number | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text) * 1000);
+  }
+
+  const date = Date.parse(text);
+  if (isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+export function computeRetryDelay(
+  error: any,
+  attempt: number,
+  retry: ResolvedRetryConfig,
+): number {
+  if (retry.respectRetryAfter && axios.isAxiosError(error)) {
+    const retryAfter = parseRetryAfter(
+      error.response?.headers?.["retry-after"],
+    );
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, retry.maxDelay);
+    }
+  }
+
+  const exponential = Math.min(
+    retry.maxDelay,
+    retry.baseDelay * 2 ** (attempt - 1),
+  );
+  return retry.jitter ? Math.random() * exponential : exponential;
+}
+
+// Resolves after `ms`, or rejects with a cancellation once `signal` aborts
+export function sleep(ms: number, signal?: GenericAbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", cancel);
+      resolve();
+    }, ms);
+    if (signal?.aborted) cancel();
+    else signal?.addEventListener?.("abort", cancel);
+  });
+}
@@ -0,0 +1,336 @@
+import { DEFAULT_IMPORT_PATH, GeneratedFile } from "./openapi";
+
+export type Framework = "node" | "react" | "next";
+export type AuthScheme = "bearer" | "apiKey" | "basic" | "oauth2" | "none";
+export type ErrorHandlingStyle = "toast" | "log" | "none";
+export type TestRunner = "jest" | "vitest";
+export type MockingLibrary = "axios-mock-adapter" | "msw";
+
+export interface ScaffoldOptions {
+  framework: Framework;
+  auth: AuthScheme;
+  environments: Record<string, string>; // Environment name -> base URL
+  errorHandling: ErrorHandlingStyle;
+  testRunner?: TestRunner; // Default: 'jest'
+  mocking?: MockingLibrary; // Default: 'axios-mock-adapter'
+  importPath?: string; // Default: this package
+}
+
+// Detected from the target project's package.json
+export interface ProjectInfo {
+  framework: Framework;
+  testRunner: TestRunner;
+  mocking: MockingLibrary;
+}
+
+export function detectProject(packageJson: any): ProjectInfo {
+  const dependencies = {
+    ...packageJson?.dependencies,
+    ...packageJson?.devDependencies,
+  };
+  return {
+    framework: dependencies.next
+      ? "next"
+      : dependencies.react
+        ? "react"
+        : "node",
+    testRunner: dependencies.vitest ? "vitest" : "jest",
+    mocking: dependencies.msw ? "msw" : "axios-mock-adapter",
+  };
+}
+
+// How each framework exposes environment variables to client code
+function envVar(framework: Framework, name: string): string {
+  switch (framework) {
+    case "react":
+      return `import.meta.env.VITE_${name}`;
+    case "next":
+      return `process.env.NEXT_PUBLIC_${name}`;
+    default:
+      return `process.env.${name}`;
+  }
+}
+
+function authConfig(options: ScaffoldOptions): {
+  imports: string[];
+  lines: string[];
+} {
+  const env = (name: string) => envVar(options.framework, name);
+
+  switch (options.auth) {
+    case "bearer":
+      if (options.framework === "node") {
+        return {
+          imports: ["FileTokenStore"],
+          lines: [`tokenStore: new FileTokenStore(".api-token"),`],
+        };
+      }
+      return {
+        imports: ["WebStorageTokenStore"],
+        lines: [
+          options.framework === "next"
+            ? `tokenStore:\n    typeof window !== "undefined" ? new WebStorageTokenStore() : undefined,`
+            : `tokenStore: new WebStorageTokenStore(),`,
+        ],
+      };
+    case "apiKey":
+      // Keys and passwords must not end up in browser bundles either
+      if (options.framework !== "node") {
+        return {
+          imports: ["apiKeyAuth"],
+          lines: [
+            `// Anything in the bundle is public, so set the signed-in user's key`,
+            `// with api.setAuthToken(key) instead of a shared one`,
+            `authStrategy: apiKeyAuth({ in: "header", name: "X-API-Key" }),`,
+          ],
+        };
+      }
+      return {
+        imports: ["apiKeyAuth"],
+        lines: [
+          `authStrategy: apiKeyAuth({`,
+          `  in: "header",`,
+          `  name: "X-API-Key",`,
+          `  key: ${env("API_KEY")},`,
+          `}),`,
+        ],
+      };
+    case "basic":
+      if (options.framework !== "node") {
+        return {
+          imports: ["bearerAuth"],
+          lines: [
+            `// Anything in the bundle is public, so after sign-in call`,
+            "// api.setAuthToken(btoa(`${username}:${password}`))",
+            `authStrategy: bearerAuth({ prefix: "Basic " }),`,
+          ],
+        };
+      }
+      return {
+        imports: ["basicAuth"],
+        lines: [
+          `authStrategy: basicAuth({`,
+          `  username: ${env("API_USERNAME")} ?? "",`,
+          `  password: ${env("API_PASSWORD")} ?? "",`,
+          `}),`,
+        ],
+      };
+    case "oauth2": {
+      // Browsers cannot keep a client secret, so the token comes from the app's server
+      if (options.framework !== "node") {
+        const bearer = authConfig({ ...options, auth: "bearer" });
+        return {
+          imports: bearer.imports,
+          lines: [
+            `// Get the access token from a token exchange on your server, which holds`,
+            `// the client secret, then pass it to api.setAuthToken(token)`,
+            ...bearer.lines,
+          ],
+        };
+      }
+      return {
+        imports: ["OAuth2Auth"],
+        lines: [
+          `authStrategy: new OAuth2Auth({`,
+          `  tokenUrl: ${env("OAUTH_TOKEN_URL")} ?? "",`,
+          `  clientId: ${env("OAUTH_CLIENT_ID")} ?? "",`,
+          `  clientSecret: ${env("OAUTH_CLIENT_SECRET")},`,
+          `}),`,
+        ],
+      };
+    }
+    default:
+      return { imports: [], lines: [] };
+  }
+}
+
+function errorHandling(options: ScaffoldOptions): {
+  prelude: string;
+  lines: string[];
+} {
+  switch (options.errorHandling) {
+    case "toast":
+      return {
+        prelude:
+          `\n// Replace with your toast library, e.g. \`toast.error\` from react-hot-toast\n` +
+          `function showErrorToast(message: string) {\n  console.error(message);\n}\n`,
+        lines: [
+          `globalErrorHandler: (error: ApiError) => {`,
+          `  if (error.code !== "CANCELLED") showErrorToast(error.message);`,
+          `},`,
+        ],
+      };
+    case "log":
+      return {
+        prelude: "",
+        lines: [
+          `globalErrorHandler: (error: ApiError) => {`,
+          "  console.error(`[api] ${error.method} ${error.url} failed: ${error.message}`);",
+          `},`,
+        ],
+      };
+    default:
+      return { prelude: "", lines: [] };
+  }
+}
+
+function clientFile(options: ScaffoldOptions): string {
+  const importPath = options.importPath ?? DEFAULT_IMPORT_PATH;
+  const auth = authConfig(options);
+  const errors = errorHandling(options);
+  const environments = Object.entries(options.environments);
+  const envName = (name: string) =>
+    envVar(options.framework, name).split(".").pop();
+  const imports = [
+    "AxiosApi",
+    ...auth.imports,
+    ...(errors.lines.length ? ["type ApiError"] : []),
+  ];
+
+  const config = [
+    "baseURL,",
+    "timeout: 10000,",
+    ...auth.lines,
+    ...errors.lines,
+  ];
+
+  return [
+    `import {\n${imports.map((name) => `  ${name},`).join("\n")}\n} from ${JSON.stringify(importPath)};\n`,
+    `\n// Base URL per environment. Set ${envName("API_ENV")} to pick one,\n`,
+    `// or ${envName("API_BASE_URL")} to override it.\n`,
+    `const BASE_URLS = {\n${environments
+      .map(
+        ([name, url]) =>
+          `  ${/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)}: ${JSON.stringify(url)},`,
+      )
+      .join("\n")}\n};\n`,
+    `\ntype Environment = keyof typeof BASE_URLS;\n`,
+    `\nconst environment = (${envVar(options.framework, "API_ENV")} ??\n  ${JSON.stringify(environments[0][0])}) as Environment;\n`,
+    `\nexport const baseURL =\n  ${envVar(options.framework, "API_BASE_URL")} ?? BASE_URLS[environment];\n`,
+    errors.prelude,
+    `\nexport const api = new AxiosApi({\n${config
+      .join("\n")
+      .split("\n")
+      .map((line) => `  ${line}`)
+      .join("\n")}\n});\n`,
+    `\nexport default api;\n`,
+  ].join("");
+}
+
+function endpointsFile(options: ScaffoldOptions): string {
+  const importPath = options.importPath ?? DEFAULT_IMPORT_PATH;
+  return `import { createClient, defineApi, typed } from ${JSON.stringify(importPath)};
+import { api } from "./client";
+
+export interface User {
+  id: number;
+  name: string;
+}
+
+// Example endpoints, replace with your own
+export const usersApi = defineApi({
+  listUsers: {
+    method: "GET",
+    path: "/users",
+    response: typed<User[]>(),
+  },
+  getUser: {
+    method: "GET",
+    path: "/users/:id",
+    response: typed<User>(),
+  },
+  createUser: {
+    method: "POST",
+    path: "/users",
+    body: typed<Omit<User, "id">>(),
+    response: typed<User>(),
+  },
+});
+
+export const users = createClient(api, usersApi);
+`;
+}
+
+function testFile(options: ScaffoldOptions): string {
+  const runner = options.testRunner ?? "jest";
+  const msw = options.mocking === "msw";
+  const hooks = msw
+    ? ["afterAll", "afterEach", "beforeAll", "describe", "expect", "it"]
+    : ["afterEach", "beforeEach", "describe", "expect", "it"];
+  const runnerImport =
+    runner === "vitest"
+      ? `import { ${hooks.join(", ")} } from "vitest";\n`
+      : "";
+
+  if (msw) {
+    return `${runnerImport}import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { baseURL } from "./client";
+import { users } from "./users";
+
+const server = setupServer(
+  http.get(\`\${baseURL}/users/:id\`, ({ params }) =>
+    HttpResponse.json({ id: Number(params.id), name: "Ada" }),
+  ),
+);
+
+beforeAll(() => server.listen());
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+describe("users", () => {
+  it("fetches a user", async () => {
+    const response = await users.getUser({ params: { id: 1 } });
+
+    expect(response.data).toEqual({ id: 1, name: "Ada" });
+  });
+});
+`;
+  }
+
+  return `${runnerImport}import MockAdapter from "axios-mock-adapter";
+import { api } from "./client";
+import { users } from "./users";
+
+describe("users", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(api.getAxiosInstance());
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("fetches a user", async () => {
+    mock.onGet("/users/1").reply(200, { id: 1, name: "Ada" });
+
+    const response = await users.getUser({ params: { id: 1 } });
+
+    expect(response.data).toEqual({ id: 1, name: "Ada" });
+  });
+
+  it("creates a user", async () => {
+    mock.onPost("/users").reply(201, { id: 2, name: "Grace" });
+
+    const response = await users.createUser({ body: { name: "Grace" } });
+
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(mock.history.post[0].data)).toEqual({ name: "Grace" });
+  });
+});
+`;
+}
+
+// Files for a new project's API layer: a configured client, example endpoints and a test
+export function scaffoldFiles(options: ScaffoldOptions): GeneratedFile[] {
+  if (!Object.keys(options.environments).length) {
+    throw new Error("At least one environment is required");
+  }
+  return [
+    { path: "client.ts", content: clientFile(options) },
+    { path: "users.ts", content: endpointsFile(options) },
+    { path: "users.test.ts", content: testFile(options) },
+  ];
+}
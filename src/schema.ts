@@ -0,0 +1,69 @@
+import { ValidationIssue } from "./errors";
+
+export type SafeParseResult<T> =
+  { success: true; data: T } | { success: false; error: unknown };
+
+// Minimal validator interface, satisfied by Zod schemas and similar libraries
+export type Schema<T = any> =
+  | {
+      safeParse(data: unknown): SafeParseResult<T>;
+      parse?(data: unknown): T;
+    }
+  | { parse(data: unknown): T };
+
+export type InferSchema<S> = S extends Schema<infer T> ? T : never;
+
+export type SchemaResult<T> =
+  { success: true; data: T } | { success: false; issues: ValidationIssue[] };
+
+// Normalize Zod/Valibot-style issues into `{ path, message }`
+function toIssues(error: any): ValidationIssue[] {
+  const issues = Array.isArray(error?.issues)
+    ? error.issues
+    : Array.isArray(error)
+      ? error
+      : null;
+
+  if (!issues) {
+    return [{ path: [], message: error?.message ?? String(error) }];
+  }
+
+  return issues.map((issue: any) => ({
+    path: Array.isArray(issue.path)
+      ? issue.path.map((segment: any) =>
+          typeof segment === "object" && segment !== null
+            ? segment.key
+            : segment,
+        )
+      : [],
+    message: issue.message ?? "Invalid value",
+  }));
+}
+
+export function validateSchema<T>(
+  schema: Schema<T>,
+  data: unknown,
+): SchemaResult<T> {
+  if ("safeParse" in schema && typeof schema.safeParse === "function") {
+    const result = schema.safeParse(data);
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, issues: toIssues(result.error) };
+  }
+
+  try {
+    return { success: true, data: schema.parse!(data) };
+  } catch (error) {
+    return { success: false, issues: toIssues(error) };
+  }
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) =>
+      issue.path.length
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    )
+    .join("; ");
+}
@@ -0,0 +1,490 @@
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  CanceledError,
+  getAdapter,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { AxiosApi, AxiosApiConfig, HttpMethod } from "./wrapper";
+import { settleResponse } from "./fixtures";
+
+export type MockMethod = HttpMethod | "HEAD" | "OPTIONS" | "ANY";
+
+// A request as seen by matchers, reply functions and the history
+export interface MockRequest {
+  method: string;
+  url: string; // Path relative to the baseURL, without the query string
+  fullUrl: string;
+  params: Record<string, string>; // Captured `:name` path segments
+  query: Record<string, any>;
+  body: any; // Parsed JSON when possible
+  headers: Record<string, string>;
+  config: InternalAxiosRequestConfig;
+}
+
+export interface MockResponse {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+export type MockReply =
+  MockResponse | [status: number, body?: any, headers?: Record<string, string>];
+
+export type ReplyFunction = (
+  request: MockRequest,
+) => MockReply | Promise<MockReply>;
+
+// Matches objects that contain the given keys (deeply), or a custom predicate
+export type ValueMatcher<T = any> =
+  Record<string, any> | ((value: T) => boolean);
+
+export interface RouteMatchers {
+  query?: ValueMatcher;
+  body?: ValueMatcher | string;
+  headers?: ValueMatcher<Record<string, string>>;
+}
+
+export type PathPattern = string | RegExp; // "/users/:id", "/files/*" or a RegExp
+
+type Outcome =
+  | { type: "reply"; reply: MockReply | ReplyFunction }
+  | { type: "networkError" }
+  | { type: "timeout" };
+
+interface Step {
+  outcome: Outcome;
+  delay: number;
+}
+
+function isSubset(actual: any, expected: any): boolean {
+  if (expected === actual) return true;
+  if (
+    expected === null ||
+    actual === null ||
+    typeof expected !== "object" ||
+    typeof actual !== "object"
+  ) {
+    // Query values arrive as strings, so compare loosely with numbers and booleans
+    return (
+      typeof actual === "string" &&
+      (typeof expected === "number" || typeof expected === "boolean") &&
+      actual === String(expected)
+    );
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, i) => isSubset(actual[i], item))
+    );
+  }
+  return Object.keys(expected).every((key) =>
+    isSubset(actual[key], expected[key]),
+  );
+}
+
+function matchValue(actual: any, matcher: ValueMatcher | string | undefined) {
+  if (matcher === undefined) return true;
+  if (typeof matcher === "function") return matcher(actual);
+  if (typeof matcher === "string") return actual === matcher;
+  return isSubset(actual, matcher);
+}
+
+// Compile "/users/:id/*" into a RegExp with named groups
+function compilePattern(pattern: PathPattern): RegExp {
+  if (pattern instanceof RegExp) return pattern;
+  const source = pattern
+    .split(/(:\w+|\*)/)
+    .map((part) => {
+      if (part === "*") return ".*";
+      if (part.startsWith(":")) return `(?<${part.slice(1)}>[^/]+)`;
+      return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}/?$`);
+}
+
+function toResponse(reply: MockReply): MockResponse {
+  if (Array.isArray(reply)) {
+    const [status, body, headers] = reply;
+    return { status, body, headers };
+  }
+  return reply;
+}
+
+function describeMatchers(matchers: RouteMatchers): string {
+  const parts = Object.entries(matchers)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) =>
+      typeof value === "function"
+        ? `${key}: <fn>`
+        : `${key}: ${JSON.stringify(value)}`,
+    );
+  return parts.length ? ` with ${parts.join(", ")}` : "";
+}
+
+export class MockRoute {
+  private steps: Step[] = []; // Consumed in order, the last one repeats
+  private pendingDelay = 0;
+  private pattern: RegExp;
+
+  constructor(
+    readonly method: MockMethod,
+    readonly path: PathPattern,
+    readonly matchers: RouteMatchers = {},
+  ) {
+    this.pattern = compilePattern(path);
+  }
+
+  // Delay the next configured response
+  delay(ms: number): this {
+    this.pendingDelay = ms;
+    return this;
+  }
+
+  reply(
+    status: number | ReplyFunction,
+    body?: any,
+    headers?: Record<string, string>,
+  ): this {
+    return this.addStep({
+      type: "reply",
+      reply: typeof status === "function" ? status : [status, body, headers],
+    });
+  }
+
+  // Reply with each response in turn; the last one repeats
+  replySequence(replies: MockReply[]): this {
+    for (const reply of replies) this.addStep({ type: "reply", reply });
+    return this;
+  }
+
+  networkError(): this {
+    return this.addStep({ type: "networkError" });
+  }
+
+  timeout(): this {
+    return this.addStep({ type: "timeout" });
+  }
+
+  private addStep(outcome: Outcome): this {
+    this.steps.push({ outcome, delay: this.pendingDelay });
+    this.pendingDelay = 0;
+    return this;
+  }
+
+  /** @internal */
+  match(request: MockRequest): Record<string, string> | null {
+    if (this.method !== "ANY" && this.method !== request.method) return null;
+
+    const match =
+      this.pattern.exec(request.url) ?? this.pattern.exec(request.fullUrl);
+    if (!match) return null;
+    if (
+      !matchValue(request.query, this.matchers.query) ||
+      !matchValue(request.body, this.matchers.body) ||
+      !matchValue(request.headers, this.matchers.headers)
+    ) {
+      return null;
+    }
+    return { ...match.groups };
+  }
+
+  /** @internal */
+  nextStep(): Step | undefined {
+    return this.steps.length > 1 ? this.steps.shift() : this.steps[0];
+  }
+
+  toString(): string {
+    return `${this.method} ${this.path}${describeMatchers(this.matchers)}`;
+  }
+}
+
+// Chainable assertions over the recorded requests
+export class RequestExpectation {
+  constructor(
+    private description: string,
+    private requests: MockRequest[],
+    private all: MockRequest[],
+  ) {
+    this.assertMatched();
+  }
+
+  withBody(body: ValueMatcher | string): this {
+    return this.narrow(`body ${JSON.stringify(body)}`, (r) =>
+      matchValue(r.body, body),
+    );
+  }
+
+  withQuery(query: ValueMatcher): this {
+    return this.narrow(`query ${JSON.stringify(query)}`, (r) =>
+      matchValue(r.query, query),
+    );
+  }
+
+  withHeaders(headers: ValueMatcher<Record<string, string>>): this {
+    return this.narrow(`headers ${JSON.stringify(headers)}`, (r) =>
+      matchValue(r.headers, headers),
+    );
+  }
+
+  times(count: number): this {
+    if (this.requests.length !== count) {
+      throw new Error(
+        `Expected ${this.description} ${count} time(s), but it was made ${this.requests.length} time(s)`,
+      );
+    }
+    return this;
+  }
+
+  // The matching requests, for custom assertions
+  get calls(): MockRequest[] {
+    return this.requests;
+  }
+
+  private narrow(label: string, predicate: (request: MockRequest) => boolean) {
+    this.description += `${this.description.includes(" with ") ? " and" : " with"} ${label}`;
+    this.requests = this.requests.filter(predicate);
+    this.assertMatched();
+    return this;
+  }
+
+  private assertMatched(): void {
+    if (this.requests.length) return;
+    const made = this.all.length
+      ? this.all
+          .map(
+            (r) => `  ${r.method} ${r.url} ${JSON.stringify(r.body ?? null)}`,
+          )
+          .join("\n")
+      : "  (none)";
+    throw new Error(`Expected ${this.description}\nRequests made:\n${made}`);
+  }
+}
+
+export interface MockApiOptions {
+  unhandled?: "error" | "passthrough"; // Unmatched requests: 404 reply (default) or the real adapter
+}
+
+// A mock transport bound to one AxiosApi instance
+export class MockApi {
+  readonly history: MockRequest[] = [];
+  private routes: MockRoute[] = [];
+  private originalAdapter: InternalAxiosRequestConfig["adapter"];
+
+  constructor(
+    readonly api: AxiosApi,
+    private options: MockApiOptions = {},
+  ) {
+    const instance = api.getAxiosInstance();
+    this.originalAdapter = instance.defaults.adapter;
+    instance.defaults.adapter = this.adapter;
+  }
+
+  on(
+    method: MockMethod,
+    path: PathPattern,
+    matchers?: RouteMatchers,
+  ): MockRoute {
+    const route = new MockRoute(method, path, matchers);
+    this.routes.push(route);
+    return route;
+  }
+
+  onGet(path: PathPattern, matchers?: RouteMatchers): MockRoute {
+    return this.on("GET", path, matchers);
+  }
+
+  onPost(path: PathPattern, matchers?: RouteMatchers): MockRoute {
+    return this.on("POST", path, matchers);
+  }
+
+  onPut(path: PathPattern, matchers?: RouteMatchers): MockRoute {
+    return this.on("PUT", path, matchers);
+  }
+
+  onPatch(path: PathPattern, matchers?: RouteMatchers): MockRoute {
+    return this.on("PATCH", path, matchers);
+  }
+
+  onDelete(path: PathPattern, matchers?: RouteMatchers): MockRoute {
+    return this.on("DELETE", path, matchers);
+  }
+
+  onAny(path: PathPattern, matchers?: RouteMatchers): MockRoute {
+    return this.on("ANY", path, matchers);
+  }
+
+  // Assert that a matching request was made, e.g. expectRequest("POST", "/users").withBody({...})
+  expectRequest(method: MockMethod, path: PathPattern): RequestExpectation {
+    const probe = new MockRoute(method, path);
+    return new RequestExpectation(
+      `${method} ${path}`,
+      this.history.filter((request) => probe.match(request)),
+      this.history,
+    );
+  }
+
+  expectNoRequests(): void {
+    if (this.history.length) {
+      throw new Error(
+        `Expected no requests, but ${this.history.length} were made: ${this.history
+          .map((r) => `${r.method} ${r.url}`)
+          .join(", ")}`,
+      );
+    }
+  }
+
+  resetHistory(): void {
+    this.history.length = 0;
+  }
+
+  // Remove all routes and recorded requests
+  reset(): void {
+    this.routes = [];
+    this.resetHistory();
+  }
+
+  // Give the instance its original adapter back
+  restore(): void {
+    this.api.getAxiosInstance().defaults.adapter = this.originalAdapter;
+  }
+
+  private adapter: AxiosAdapter = async (config) => {
+    const request = toMockRequest(config);
+    this.history.push(request);
+
+    // Later routes take precedence, so tests can override shared setup
+    for (const route of [...this.routes].reverse()) {
+      const params = route.match(request);
+      if (!params) continue;
+
+      const step = route.nextStep();
+      if (!step) continue;
+      return this.respond(step, { ...request, params }, config);
+    }
+
+    if (this.options.unhandled === "passthrough") {
+      return getAdapter(this.originalAdapter)(config);
+    }
+
+    return settleResponse(config, {
+      status: 404,
+      body: {
+        message: `No mock route matches ${request.method} ${request.url}`,
+      },
+    });
+  };
+
+  private async respond(
+    step: Step,
+    request: MockRequest,
+    config: InternalAxiosRequestConfig,
+  ): Promise<AxiosResponse> {
+    const { outcome } = step;
+    const timeout = config.timeout || 0;
+    const timesOut =
+      outcome.type === "timeout" || (timeout > 0 && step.delay > timeout);
+
+    await wait(timesOut && timeout ? timeout : step.delay, config);
+
+    if (timesOut) {
+      throw new AxiosError(
+        `timeout of ${timeout}ms exceeded`,
+        AxiosError.ECONNABORTED,
+        config,
+      );
+    }
+    if (outcome.type === "networkError") {
+      throw new AxiosError("Network Error", AxiosError.ERR_NETWORK, config);
+    }
+
+    const reply =
+      typeof outcome.reply === "function"
+        ? await outcome.reply(request)
+        : outcome.reply;
+    return settleResponse(config, toResponse(reply));
+  }
+}
+
+function wait(ms: number, config: InternalAxiosRequestConfig): Promise<void> {
+  const signal = config.signal as AbortSignal | undefined;
+  if (signal?.aborted)
+    return Promise.reject(new CanceledError(undefined, undefined, config));
+  if (!ms) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError(undefined, undefined, config));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener?.("abort", onAbort, { once: true });
+  });
+}
+
+function toMockRequest(config: InternalAxiosRequestConfig): MockRequest {
+  const rawUrl = config.url ?? "";
+  const absolute = /^[a-z][a-z\d+.-]*:\/\//i.test(rawUrl);
+  const fullUrl = absolute
+    ? rawUrl
+    : `${(config.baseURL ?? "").replace(/\/+$/, "")}/${rawUrl.replace(/^\/+/, "")}`;
+
+  const [withoutQuery, search = ""] = rawUrl.split("?");
+  let url = withoutQuery;
+  if (absolute && config.baseURL && withoutQuery.startsWith(config.baseURL)) {
+    url = withoutQuery.slice(config.baseURL.replace(/\/+$/, "").length) || "/";
+  }
+
+  const query: Record<string, any> = Object.fromEntries(
+    new URLSearchParams(search),
+  );
+  const params = config.params;
+  if (params instanceof URLSearchParams) {
+    params.forEach((value, key) => (query[key] = value));
+  } else if (params) {
+    Object.assign(query, params);
+  }
+
+  let body = config.data;
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // Keep non-JSON bodies as strings
+    }
+  }
+
+  return {
+    method: (config.method ?? "get").toUpperCase(),
+    url,
+    fullUrl: fullUrl.split("?")[0],
+    params: {},
+    query,
+    body,
+    headers: Object.fromEntries(
+      Object.entries(AxiosHeaders.from(config.headers).toJSON()).map(
+        ([key, value]) => [key, String(value)],
+      ),
+    ),
+    config,
+  };
+}
+
+// Create an AxiosApi (or wrap an existing one) whose requests are answered by mocks
+export function createMockApi(
+  apiOrConfig: AxiosApi | Partial<AxiosApiConfig> = {},
+  options?: MockApiOptions,
+): MockApi {
+  const api =
+    apiOrConfig instanceof AxiosApi
+      ? apiOrConfig
+      : new AxiosApi({ baseURL: "http://localhost", ...apiOrConfig });
+  return new MockApi(api, options);
+}
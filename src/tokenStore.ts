@@ -0,0 +1,91 @@
+// Adapters for persisting the auth token. Methods may be sync or async.
+export interface TokenStore {
+  get(): string | null | Promise<string | null>;
+  set(token: string): void | Promise<void>;
+  remove(): void | Promise<void>;
+}
+
+export class MemoryTokenStore implements TokenStore {
+  private token: string | null;
+
+  constructor(token: string | null = null) {
+    this.token = token;
+  }
+
+  get(): string | null {
+    return this.token;
+  }
+
+  set(token: string): void {
+    this.token = token;
+  }
+
+  remove(): void {
+    this.token = null;
+  }
+}
+
+// Persists the token to a file, for Node CLIs and scripts
+export class FileTokenStore implements TokenStore {
+  constructor(private filePath: string) {}
+
+  async get(): Promise<string | null> {
+    const fs = await import("fs");
+    try {
+      const token = (await fs.promises.readFile(this.filePath, "utf8")).trim();
+      return token || null;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async set(token: string): Promise<void> {
+    const fs = await import("fs");
+    const path = await import("path");
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(this.filePath, token, {
+      encoding: "utf8",
+      mode: 0o600,
+    });
+  }
+
+  async remove(): Promise<void> {
+    const fs = await import("fs");
+    try {
+      await fs.promises.unlink(this.filePath);
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+}
+
+export type WebStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+// Persists the token in localStorage (default) or sessionStorage
+export class WebStorageTokenStore implements TokenStore {
+  private storage: WebStorage;
+
+  constructor(
+    storage?: WebStorage,
+    private key: string = "better-axios:token",
+  ) {
+    const resolved = storage ?? (globalThis as any).localStorage;
+    if (!resolved) {
+      throw new Error("Web Storage is not available in this environment");
+    }
+    this.storage = resolved;
+  }
+
+  get(): string | null {
+    return this.storage.getItem(this.key);
+  }
+
+  set(token: string): void {
+    this.storage.setItem(this.key, token);
+  }
+
+  remove(): void {
+    this.storage.removeItem(this.key);
+  }
+}
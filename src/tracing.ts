@@ -0,0 +1,160 @@
+import axios from "axios";
+import type { ApiError } from "./errors";
+import type { Plugin } from "./plugins";
+
+type AttributeValue = string | number | boolean;
+
+// The parts of the OpenTelemetry tracing API used here, so OTel tracers can be passed in as they are
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  traceState?: { serialize(): string };
+}
+
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: AttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): void;
+  end(): void;
+}
+
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: Record<string, AttributeValue> },
+  ): Span;
+}
+
+export interface TracingOptions {
+  tracer?: Tracer; // Default: the global OpenTelemetry tracer, or none when @opentelemetry/api is not installed
+  propagate?: boolean | ((url: string) => boolean); // Send traceparent/tracestate headers (default: true)
+}
+
+// Values of OpenTelemetry's SpanKind.CLIENT and SpanStatusCode.ERROR
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+const INVALID_TRACE_ID = /^0+$/;
+
+async function loadGlobalTracer(): Promise<Tracer | undefined> {
+  // A variable keeps bundlers and the compiler from requiring the optional package
+  const moduleName = "@opentelemetry/api";
+  try {
+    const otel = await import(moduleName);
+    return otel.trace.getTracer("better-axios", "1.0.0");
+  } catch {
+    return undefined;
+  }
+}
+
+// Query values and credentials in the URL, e.g. from apiKeyAuth({ in: "query" }), must not be exported
+function redactUrl(url: string): string {
+  const queryStart = url.indexOf("?");
+  const base = (queryStart === -1 ? url : url.slice(0, queryStart)).replace(
+    /^([a-z][a-z\d+.-]*:\/\/)[^/@]*@/i,
+    "$1REDACTED:REDACTED@",
+  );
+  if (queryStart === -1) return base;
+
+  const params = new URLSearchParams(url.slice(queryStart + 1));
+  for (const name of new Set(params.keys())) params.set(name, "REDACTED");
+  return `${base}?${params}`;
+}
+
+// W3C trace context header for a span
+export function formatTraceparent(context: SpanContext): string {
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, "0");
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+// Record a client span per request and propagate its trace context
+export function tracing(options: TracingOptions = {}): Plugin {
+  const spans = new Map<string, Span>(); // By request ID
+  let tracer: Promise<Tracer | undefined> | undefined;
+  const shouldPropagate = (url: string) =>
+    typeof options.propagate === "function"
+      ? options.propagate(url)
+      : options.propagate !== false;
+
+  return {
+    name: "tracing",
+
+    // One span covers the whole request, including retries
+    middleware: async (context, next) => {
+      tracer ??= options.tracer
+        ? Promise.resolve(options.tracer)
+        : loadGlobalTracer();
+      const activeTracer = await tracer;
+      if (!activeTracer) return next();
+
+      const span = activeTracer.startSpan(
+        context.urlTemplate
+          ? `${context.method} ${context.urlTemplate}`
+          : context.method,
+        {
+          kind: SPAN_KIND_CLIENT,
+          attributes: {
+            "http.request.method": context.method,
+            ...(context.urlTemplate && { "url.template": context.urlTemplate }),
+          },
+        },
+      );
+      spans.set(context.requestId, span);
+
+      try {
+        const response = await next();
+        span.setAttribute("http.response.status_code", response.statusCode);
+        return response;
+      } catch (error) {
+        const apiError = error as ApiError;
+        if (apiError.statusCode) {
+          span.setAttribute("http.response.status_code", apiError.statusCode);
+        }
+        span.setAttribute(
+          "error.type",
+          apiError.statusCode ? String(apiError.statusCode) : apiError.code,
+        );
+        span.recordException(apiError);
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: apiError.message });
+        throw error;
+      } finally {
+        spans.delete(context.requestId);
+        span.end();
+      }
+    },
+
+    onRequest: (config, context) => {
+      const span = spans.get(context.requestId);
+      if (!span) return;
+
+      const url = axios.getUri(config);
+      span.setAttribute("url.full", redactUrl(url));
+      try {
+        const { hostname, port, protocol } = new URL(url);
+        span.setAttribute("server.address", hostname);
+        span.setAttribute(
+          "server.port",
+          Number(port) || (protocol === "https:" ? 443 : 80),
+        );
+      } catch {
+        // Relative URLs have no server to report
+      }
+
+      const spanContext = span.spanContext();
+      if (!shouldPropagate(url) || INVALID_TRACE_ID.test(spanContext.traceId)) {
+        return;
+      }
+      config.headers.set("traceparent", formatTraceparent(spanContext));
+      const traceState = spanContext.traceState?.serialize();
+      if (traceState) config.headers.set("tracestate", traceState);
+    },
+
+    onRetry: (retry, context) => {
+      spans
+        .get(context.requestId)
+        ?.setAttribute("http.request.resend_count", retry.attempt);
+    },
+  };
+}
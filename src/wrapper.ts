@@ -2,9 +2,56 @@ import axios, {
   AxiosInstance,
   AxiosRequestConfig,
   AxiosResponse,
-  AxiosError,
+  CanceledError,
+  GenericAbortSignal,
   InternalAxiosRequestConfig,
 } from "axios";
+import {
+  ResolvedRetryConfig,
+  RetryConfig,
+  computeRetryDelay,
+  resolveRetryConfig,
+  shouldRetry,
+  sleep,
+} from "./retry";
+import { AuthContext, AuthStrategy, bearerAuth } from "./auth";
+import { TokenStore } from "./tokenStore";
+import {
+  CacheConfig,
+  CacheEntry,
+  CacheStore,
+  MemoryCacheStore,
+  ResolvedCacheConfig,
+  createCacheEntry,
+  createCacheKey,
+  matchesCacheKey,
+  resolveCacheConfig,
+} from "./cache";
+import { authIdentity, cloneData, createDedupeKey } from "./dedupe";
+import { JwtClaims, TokenExpiredError, decodeJwt, isJwtExpired } from "./jwt";
+import {
+  ApiError,
+  ValidationError,
+  isCancelledError,
+  toApiError,
+} from "./errors";
+import { AbortGroup, linkSignal } from "./abort";
+import { Plugin, PluginContext, PluginOptions, runMiddleware } from "./plugins";
+import {
+  ApiEventEmitter,
+  ApiEventListener,
+  ApiEventName,
+  AuthChangedEvent,
+  bodySize,
+  createRequestId,
+} from "./events";
+import type { ConfigFileOptions } from "./config";
+import { FixtureConfig, createFixtureAdapter } from "./fixtures";
+import { Logger, LoggerConfig, RequestLogger } from "./logger";
+import { RateLimitConfig, RateLimitTarget, RateLimiter } from "./rateLimit";
+import { Schema, formatIssues, validateSchema } from "./schema";
+
+export { ApiError };
 
 // Type definitions
 export interface ApiResponse<T = any> {
@@ -12,12 +59,37 @@ export interface ApiResponse<T = any> {
   success: boolean;
   message?: string;
   statusCode: number;
+  fromCache?: boolean; // True when the data was served from the response cache
 }
 
-export interface ApiError {
-  message: string;
-  statusCode: number;
-  originalError: any;
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
+
+// Result of a request made through `api.safe`, which never throws
+export type ApiResult<T = any> =
+  | { ok: true; data: T; response: ApiResponse<T> }
+  | { ok: false; error: ApiError };
+
+export interface SafeApi {
+  get<T = any>(url: string, config?: RequestConfig<T>): Promise<ApiResult<T>>;
+  post<T = any>(
+    url: string,
+    data?: any,
+    config?: RequestConfig<T>,
+  ): Promise<ApiResult<T>>;
+  put<T = any>(
+    url: string,
+    data?: any,
+    config?: RequestConfig<T>,
+  ): Promise<ApiResult<T>>;
+  patch<T = any>(
+    url: string,
+    data?: any,
+    config?: RequestConfig<T>,
+  ): Promise<ApiResult<T>>;
+  delete<T = any>(
+    url: string,
+    config?: RequestConfig<T>,
+  ): Promise<ApiResult<T>>;
 }
 
 export type ErrorHandler = (error: ApiError) => void;
@@ -29,6 +101,13 @@ export type ResponseInterceptor = (
   response: AxiosResponse,
 ) => AxiosResponse | Promise<AxiosResponse>;
 
+export interface AuthConfig {
+  refresh?: (currentToken: string | null) => Promise<string>; // Fetch a new token after a 401
+  onAuthFailure?: (error: ApiError) => void; // Called when the refresh itself fails
+  expirySkew?: number; // Seconds before a JWT's `exp` at which it counts as expired (default: 30)
+  onTokenExpired?: "refresh" | "reject" | "ignore"; // What to do with an expired JWT before sending (default: 'ignore')
+}
+
 export interface AxiosApiConfig {
   baseURL: string;
   timeout?: number;
@@ -39,20 +118,105 @@ export interface AxiosApiConfig {
   globalSuccessHandler?: SuccessHandler;
   requestInterceptor?: RequestInterceptor;
   responseInterceptor?: ResponseInterceptor;
+  plugins?: Plugin<any>[]; // Installed in order, after requestInterceptor/responseInterceptor
+  retry?: RetryConfig | boolean; // Retry policy for failed requests (disabled by default)
+  auth?: AuthConfig;
+  authStrategy?: AuthStrategy; // How the token is attached (default: bearer header)
+  tokenStore?: TokenStore; // Persist the auth token across restarts
+  onTokenStoreError?: (error: unknown) => void; // Called when the token store fails to load, save or remove the token
+  cache?: CacheConfig | boolean; // Response cache for GET requests (disabled by default)
+  dedupe?: boolean; // Share one network call between identical concurrent GETs (default: false)
+  fixtures?: FixtureConfig; // Record responses to a fixture file, or replay them without the network
+  reportCancellations?: boolean; // Pass cancelled requests to the global error handler (default: false)
+  logger?: Logger | LoggerConfig; // Log requests, responses and errors with secrets redacted
+  rateLimit?: RateLimitConfig; // Client-side rate limits and a cap on concurrent requests (disabled by default)
 }
 
-export interface RequestConfig
-  extends Omit<AxiosRequestConfig, "url" | "method"> {
+export interface RequestConfig<T = any> extends Omit<
+  AxiosRequestConfig,
+  "url" | "method"
+> {
   useAuth?: boolean;
   customErrorHandler?: ErrorHandler;
-  customSuccessHandler?: SuccessHandler;
+  customSuccessHandler?: SuccessHandler<T>;
   skipGlobalHandlers?: boolean;
+  retry?: RetryConfig | boolean; // Override the global retry policy, `false` disables it
+  authStrategy?: AuthStrategy; // Override the global auth strategy for this request
+  cache?: CacheConfig | boolean; // Override the global cache options, `false` bypasses the cache
+  dedupe?: boolean; // Override the global dedupe option for this request
+  schema?: Schema<T>; // Validate (and type) the response data
+  requestSchema?: Schema; // Validate the request body before sending
+  abortGroup?: AbortGroup; // Cancelled together with the other requests in the group
+  latestOnly?: string | boolean; // Cancel the previous in-flight request with this key (`true`: same method and URL)
+  pluginOptions?: Partial<PluginOptions>; // Options for installed plugins, keyed by plugin name
+  urlTemplate?: string; // Route the URL was built from, e.g. '/users/:id', for tracing and metrics
+  priority?: number; // Position in the rateLimit queue, higher goes first (default: 0)
+}
+
+// Per-request options carried through the axios config to the interceptors
+interface RequestMeta {
+  useAuth: boolean;
+  authStrategy?: AuthStrategy;
+  pluginOptions?: Partial<PluginOptions>;
+  requestId?: string;
+  urlTemplate?: string;
+  priority?: number;
+  plugins?: Plugin<any>[]; // Installed when the request started
 }
 
+type MetaRequestConfig = AxiosRequestConfig & { betterAxios?: RequestMeta };
+
+// Tracks a single logical request across retries and auth refreshes
+interface RequestState {
+  attempt: number;
+  authRefreshed: boolean;
+}
+
+interface InFlightRequest<T> {
+  state: RequestState;
+  promise: Promise<ApiResponse<T>>;
+  callers: number; // Callers still waiting for the response
+  abort: () => void;
+}
+
+const defaultAuthStrategy = bearerAuth();
+
 export class AxiosApi {
   private axiosInstance: AxiosInstance;
   private config: AxiosApiConfig;
   private authToken: string | null = null;
+  private refreshPromise: Promise<string> | null = null;
+  private failedRefreshToken: string | undefined; // Token whose refresh failed, until a new one is set
+  private tokenReady: Promise<void> = Promise.resolve();
+  private tokenTouched = false;
+  private cacheStore: CacheStore;
+  private revalidating = new Set<string>();
+  private inFlight = new Map<string, InFlightRequest<any>>();
+  private controllers = new Set<AbortController>(); // One per request in flight
+  private latestRequests = new Map<string, AbortController>();
+  private plugins: Plugin<any>[] = [];
+  private events = new ApiEventEmitter();
+  private logger?: RequestLogger;
+  private rateLimiter?: RateLimiter;
+
+  // Same methods as the client, returning an ApiResult instead of throwing
+  readonly safe: SafeApi = {
+    get: (url, config) => this.toResult(this.get(url, config)),
+    post: (url, data, config) => this.toResult(this.post(url, data, config)),
+    put: (url, data, config) => this.toResult(this.put(url, data, config)),
+    patch: (url, data, config) => this.toResult(this.patch(url, data, config)),
+    delete: (url, config) => this.toResult(this.delete(url, config)),
+  };
+
+  // Create a client from a profile in better-axios.config.{json,js,ts}.
+  // Config files are read from disk, so the better-axios/node entry installs this.
+  static fromConfigFile(_options?: ConfigFileOptions): Promise<AxiosApi> {
+    return Promise.reject(
+      new Error(
+        'AxiosApi.fromConfigFile() reads files with Node, import "better-axios/node" to enable it',
+      ),
+    );
+  }
 
   constructor(config: AxiosApiConfig) {
     this.config = {
@@ -62,31 +226,122 @@ export class AxiosApi {
       ...config,
     };
 
+    if (this.config.rateLimit) {
+      this.rateLimiter = new RateLimiter(this.config.rateLimit);
+    }
+
+    this.cacheStore =
+      (typeof this.config.cache === "object" && this.config.cache.store) ||
+      new MemoryCacheStore();
+
     // Create axios instance
     this.axiosInstance = axios.create({
       baseURL: this.config.baseURL,
       timeout: this.config.timeout,
       headers: this.config.defaultHeaders || {},
     });
+    if (this.config.fixtures) {
+      const secrets = this.config.authStrategy?.secrets;
+      this.axiosInstance.defaults.adapter = createFixtureAdapter(
+        this.config.fixtures,
+        this.axiosInstance.defaults.adapter,
+        {
+          headers: [this.config.authTokenKey!, ...(secrets?.headers ?? [])],
+          query: secrets?.query,
+        },
+      );
+    }
+
+    // The single interceptor slots predate plugins and run as the first one
+    const { requestInterceptor, responseInterceptor } = this.config;
+    if (requestInterceptor || responseInterceptor) {
+      this.use({
+        name: "interceptors",
+        onRequest:
+          requestInterceptor && ((config) => requestInterceptor(config)),
+        onResponse: responseInterceptor,
+      });
+    }
+    this.config.plugins?.forEach((plugin) => this.use(plugin));
+
+    if (this.config.logger) {
+      const logger = new RequestLogger(
+        this.config.logger,
+        this.config.authTokenKey!,
+      );
+      logger.redactAuth(this.config.authStrategy);
+      this.logger = logger;
+      this.events.on("request:retry", (event) => logger.retry(event));
+      this.events.on("request:error", (event) => logger.error(event));
+    }
 
     this.setupInterceptors();
+    this.loadStoredToken();
+  }
+
+  // Read the persisted token; async stores are awaited before the first request
+  private loadStoredToken(): void {
+    const store = this.config.tokenStore;
+    if (!store) return;
+
+    let stored: ReturnType<TokenStore["get"]>;
+    try {
+      stored = store.get();
+    } catch (error) {
+      this.config.onTokenStoreError?.(error);
+      return;
+    }
+    if (!(stored instanceof Promise)) {
+      this.authToken = stored;
+      return;
+    }
+
+    this.tokenReady = stored.then(
+      (token) => {
+        // A token set while the store was loading takes precedence
+        if (this.tokenTouched) return;
+        this.authToken = token;
+        if (token !== null) {
+          this.events.emit("auth:changed", {
+            authenticated: true,
+            reason: "loaded",
+          });
+        }
+      },
+      (error) => this.config.onTokenStoreError?.(error),
+    );
   }
 
   private setupInterceptors(): void {
     // Request interceptor
     this.axiosInstance.interceptors.request.use(
       async (config) => {
-        // Add auth token if available and useAuth is not explicitly false
-        if (this.authToken && config.headers) {
-          config.headers[this.config.authTokenKey!] =
-            `${this.config.authTokenPrefix}${this.authToken}`;
+        const meta = (config as MetaRequestConfig).betterAxios;
+
+        // Apply the auth strategy unless useAuth is explicitly false
+        if (meta?.useAuth === false) {
+          config.headers.delete(this.config.authTokenKey!);
+        } else {
+          const strategy =
+            meta?.authStrategy ||
+            this.config.authStrategy ||
+            defaultAuthStrategy;
+          await strategy.apply(config, this.getAuthContext());
         }
 
-        // Apply custom request interceptor if provided
-        if (this.config.requestInterceptor) {
-          config = await this.config.requestInterceptor(config);
+        // Requests sent through getAxiosInstance() have no captured plugins
+        for (const plugin of meta?.plugins ?? this.plugins) {
+          if (!plugin.onRequest) continue;
+          config =
+            (await plugin.onRequest(
+              config,
+              this.pluginContext(plugin, config as MetaRequestConfig),
+            )) ?? config;
         }
 
+        // Logged last, so the log shows what is actually sent
+        this.logger?.redactAuth(meta?.authStrategy);
+        this.logger?.request(config, meta?.requestId ?? "");
         return config;
       },
       (error) => Promise.reject(error),
@@ -95,64 +350,269 @@ export class AxiosApi {
     // Response interceptor
     this.axiosInstance.interceptors.response.use(
       async (response) => {
-        // Apply custom response interceptor if provided
-        if (this.config.responseInterceptor) {
-          response = await this.config.responseInterceptor(response);
+        const meta = (response.config as MetaRequestConfig).betterAxios;
+        for (const plugin of meta?.plugins ?? this.plugins) {
+          if (!plugin.onResponse) continue;
+          response =
+            (await plugin.onResponse(
+              response,
+              this.pluginContext(plugin, response.config as MetaRequestConfig),
+            )) ?? response;
         }
+
+        this.logger?.response(response, meta?.requestId ?? "");
         return response;
       },
       (error) => Promise.reject(error),
     );
   }
 
-  // Auth token management
-  setAuthToken(token: string): void {
-    this.authToken = token;
+  // Auth token management. The returned promise resolves once the token store is updated.
+  async setAuthToken(token: string): Promise<void> {
+    await this.updateAuthToken(token, "set");
+  }
+
+  async removeAuthToken(): Promise<void> {
+    await this.updateAuthToken(null, "removed");
   }
 
-  removeAuthToken(): void {
-    this.authToken = null;
+  private async updateAuthToken(
+    token: string | null,
+    reason: AuthChangedEvent["reason"],
+  ): Promise<void> {
+    this.authToken = token;
+    this.tokenTouched = true;
+    this.failedRefreshToken = undefined;
+    this.events.emit("auth:changed", { authenticated: token !== null, reason });
+
+    // The token is in use either way, so a failing store is reported instead of thrown
+    try {
+      if (token === null) {
+        await this.config.tokenStore?.remove();
+      } else {
+        await this.config.tokenStore?.set(token);
+      }
+    } catch (error) {
+      this.config.onTokenStoreError?.(error);
+    }
   }
 
   getAuthToken(): string | null {
     return this.authToken;
   }
 
+  // Claims of the current token if it is a JWT. The signature is not verified.
+  getAuthClaims(): JwtClaims | null {
+    return this.authToken ? decodeJwt(this.authToken) : null;
+  }
+
+  isAuthTokenExpired(
+    skewSeconds: number = this.config.auth?.expirySkew ?? 30,
+  ): boolean {
+    return isJwtExpired(this.getAuthClaims(), skewSeconds);
+  }
+
+  // Refresh or reject before sending when the current JWT is about to expire
+  private async checkTokenExpiry(): Promise<void> {
+    const onTokenExpired = this.config.auth?.onTokenExpired ?? "ignore";
+    if (onTokenExpired === "ignore" || !this.isAuthTokenExpired()) return;
+
+    if (onTokenExpired === "refresh" && this.config.auth?.refresh) {
+      await this.refreshAuthToken();
+      return;
+    }
+    throw new TokenExpiredError(new Date(this.getAuthClaims()!.exp! * 1000));
+  }
+
+  private getAuthContext(): AuthContext {
+    return {
+      token: this.authToken,
+      tokenKey: this.config.authTokenKey!,
+      tokenPrefix: this.config.authTokenPrefix!,
+    };
+  }
+
+  // Refresh the auth token, sharing a single in-flight refresh between callers
+  refreshAuthToken(): Promise<string> {
+    const refresh = this.config.auth?.refresh;
+    if (!refresh) {
+      return Promise.reject(new Error("No auth refresh handler configured"));
+    }
+
+    if (!this.refreshPromise) {
+      const refreshing = this.authToken;
+      this.refreshPromise = Promise.resolve()
+        .then(() => refresh(this.authToken))
+        .then(async (token) => {
+          await this.updateAuthToken(token, "refreshed");
+          return token;
+        })
+        .catch(async (error) => {
+          await this.updateAuthToken(null, "refreshFailed");
+          // Without a token there is nothing stale to remember, so a later 401 may try again
+          if (refreshing !== null) this.failedRefreshToken = refreshing;
+          this.config.auth?.onAuthFailure?.(toApiError(error));
+          throw error;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+
+    return this.refreshPromise;
+  }
+
+  private canRefreshAuth(error: any, useAuth: boolean): boolean {
+    return (
+      useAuth &&
+      !!this.config.auth?.refresh &&
+      axios.isAxiosError(error) &&
+      error.response?.status === 401
+    );
+  }
+
   // Core request method
   private async makeRequest<T = any>(
-    method: "GET" | "POST" | "PUT" | "DELETE" | "PATCH",
+    method: HttpMethod,
     url: string,
-    requestConfig: RequestConfig = {},
+    requestConfig: RequestConfig<T> = {},
   ): Promise<ApiResponse<T>> {
     const {
       useAuth = true,
       customErrorHandler,
       customSuccessHandler,
       skipGlobalHandlers = false,
+      retry,
+      authStrategy,
+      cache,
+      dedupe,
+      schema,
+      requestSchema,
+      abortGroup,
+      latestOnly,
+      pluginOptions,
+      urlTemplate,
+      priority,
       ...axiosConfig
     } = requestConfig;
 
-    try {
-      // Prepare axios config
-      const config: AxiosRequestConfig = {
-        method,
-        url,
-        ...axiosConfig,
-      };
+    const tracked = this.trackRequest(
+      latestOnly === true ? `${method} ${url}` : latestOnly || undefined,
+      axiosConfig.signal,
+      abortGroup,
+    );
+
+    // Plugins are captured per request, so removing one does not affect requests in flight
+    const plugins = [...this.plugins];
+
+    // Prepare axios config
+    const config: MetaRequestConfig = {
+      method,
+      url,
+      ...axiosConfig,
+      signal: tracked.signal,
+      betterAxios: {
+        useAuth,
+        authStrategy,
+        pluginOptions,
+        requestId: createRequestId(),
+        urlTemplate,
+        priority,
+        plugins,
+      },
+    };
+    const retryConfig = resolveRetryConfig(this.config.retry, retry);
+    const cacheConfig = resolveCacheConfig(
+      this.config.cache,
+      cache,
+      this.cacheStore,
+    );
+    let state: RequestState = { attempt: 0, authRefreshed: false };
+
+    const contextFor = (plugin: Plugin) =>
+      this.pluginContext(plugin, { ...config, url });
+
+    // Middleware sees ApiErrors, like the callers do
+    const request = async (): Promise<ApiResponse<T>> => {
+      try {
+        if (requestSchema) {
+          config.data = this.validate(requestSchema, config.data, "Request");
+        }
+
+        await this.tokenReady;
+
+        const send = (
+          requestState: RequestState,
+          requestConfig: MetaRequestConfig = config,
+        ) =>
+          cacheConfig && cacheConfig.methods.includes(method)
+            ? this.sendCachedRequest<T>(
+                requestConfig,
+                retryConfig,
+                cacheConfig,
+                requestState,
+              )
+            : this.sendRequest<T>(
+                requestConfig,
+                retryConfig,
+                requestState,
+              ).then((response) => this.toApiResponse(response));
+
+        let apiResponse: ApiResponse<T>;
+        if (method === "GET" && (dedupe ?? this.config.dedupe)) {
+          const key = createDedupeKey(
+            method,
+            url,
+            axiosConfig.params,
+            authIdentity(useAuth, this.authToken, authStrategy),
+          );
+          const shared = this.shareInFlight(key, config, send);
+          state = shared.state;
+
+          // Every caller gets its own copy of the shared response
+          const response = await this.joinInFlight(shared, config.signal);
+          apiResponse = { ...response, data: cloneData(response.data) };
+        } else {
+          apiResponse = await send(state);
+        }
+
+        if (schema) {
+          apiResponse = {
+            ...apiResponse,
+            data: this.validate(
+              schema,
+              apiResponse.data,
+              "Response",
+              apiResponse,
+            ),
+          };
+        }
 
-      // Override auth header if useAuth is explicitly false
-      if (!useAuth && config.headers) {
-        delete config.headers[this.config.authTokenKey!];
+        return apiResponse;
+      } catch (error) {
+        throw toApiError(error, { method, url });
       }
+    };
 
-      const response = await this.axiosInstance.request<T>(config);
+    const event = this.requestEvent(config);
+    const startedAt = Date.now();
+    this.events.emit("request:start", { ...event, timestamp: startedAt });
 
-      const apiResponse: ApiResponse<T> = {
-        data: response.data,
-        success: true,
-        statusCode: response.status,
-        message: response.statusText,
-      };
+    try {
+      const apiResponse = (await runMiddleware(
+        plugins,
+        contextFor,
+        request,
+      )) as ApiResponse<T>;
+
+      this.events.emit("request:end", {
+        ...event,
+        status: apiResponse.statusCode,
+        duration: Date.now() - startedAt,
+        attempts: state.attempt,
+        size: bodySize(apiResponse.data),
+        fromCache: !!apiResponse.fromCache,
+      });
 
       // Handle success
       if (!skipGlobalHandlers) {
@@ -165,44 +625,455 @@ export class AxiosApi {
 
       return apiResponse;
     } catch (error) {
-      const apiError = this.createApiError(error);
+      const apiError = toApiError(error, { method, url });
+      apiError.attempts = state.attempt;
+
+      for (const plugin of plugins) {
+        await plugin.onError?.(apiError, contextFor(plugin));
+      }
+      this.events.emit("request:error", {
+        ...event,
+        error: apiError,
+        status: apiError.statusCode || undefined,
+        duration: Date.now() - startedAt,
+        attempts: state.attempt,
+      });
+
+      // Cancellations are deliberate, so they skip the global handler unless reported
+      const reportError =
+        this.config.reportCancellations || !isCancelledError(apiError);
 
       // Handle error
       if (!skipGlobalHandlers) {
         if (customErrorHandler) {
           customErrorHandler(apiError);
-        } else if (this.config.globalErrorHandler) {
+        } else if (this.config.globalErrorHandler && reportError) {
           this.config.globalErrorHandler(apiError);
         }
       }
 
       throw apiError;
+    } finally {
+      tracked.release();
+    }
+  }
+
+  // Identifies a request in lifecycle events
+  private requestEvent(config: MetaRequestConfig) {
+    return {
+      requestId: config.betterAxios?.requestId ?? "",
+      method: (config.method ?? "GET").toUpperCase(),
+      url: this.axiosInstance.getUri(config),
+    };
+  }
+
+  private pluginContext(
+    plugin: Plugin,
+    config: MetaRequestConfig,
+  ): PluginContext {
+    return {
+      api: this,
+      requestId: config.betterAxios?.requestId ?? "",
+      method: (config.method ?? "GET").toUpperCase(),
+      url: config.url ?? "",
+      urlTemplate: config.betterAxios?.urlTemplate,
+      options: (config.betterAxios?.pluginOptions as any)?.[plugin.name],
+    };
+  }
+
+  // Give the request its own AbortController so cancelAll, abort groups and latestOnly can reach it
+  private trackRequest(
+    latestKey: string | undefined,
+    signal: RequestConfig["signal"],
+    group?: AbortGroup,
+  ): { signal: AbortSignal; release: () => void } {
+    const controller = new AbortController();
+    const unlink = linkSignal(signal, controller);
+    const leaveGroup = group?.track(controller);
+    this.controllers.add(controller);
+
+    if (latestKey) {
+      this.latestRequests.get(latestKey)?.abort();
+      this.latestRequests.set(latestKey, controller);
     }
+
+    return {
+      signal: controller.signal,
+      release: () => {
+        unlink();
+        leaveGroup?.();
+        this.controllers.delete(controller);
+        if (latestKey && this.latestRequests.get(latestKey) === controller) {
+          this.latestRequests.delete(latestKey);
+        }
+      },
+    };
+  }
+
+  // Share one in-flight request between identical concurrent callers
+  private shareInFlight<T>(
+    key: string,
+    config: MetaRequestConfig,
+    send: (
+      state: RequestState,
+      config: MetaRequestConfig,
+    ) => Promise<ApiResponse<T>>,
+  ): InFlightRequest<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) return existing;
+
+    // The shared request has its own signal, so one caller cancelling does not cancel the others
+    const controller = new AbortController();
+    const state: RequestState = { attempt: 0, authRefreshed: false };
+    const shared: InFlightRequest<T> = {
+      state,
+      callers: 0,
+      promise: send(state, { ...config, signal: controller.signal }).finally(
+        () => {
+          if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+        },
+      ),
+      abort: () => {
+        if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+        controller.abort();
+      },
+    };
+    this.inFlight.set(key, shared);
+    return shared;
   }
 
-  private createApiError(error: any): ApiError {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      const responseData = axiosError.response?.data as any;
-      return {
-        message:
-          responseData?.message || axiosError.message || "Request failed",
-        statusCode: axiosError.response?.status || 0,
-        originalError: axiosError,
+  // Wait for a shared request until it settles or this caller's signal aborts.
+  // The request itself is only aborted once every caller has cancelled.
+  private joinInFlight<T>(
+    shared: InFlightRequest<T>,
+    signal: GenericAbortSignal | undefined,
+  ): Promise<ApiResponse<T>> {
+    shared.callers++;
+    return new Promise((resolve, reject) => {
+      let done = false;
+      const leave = () => {
+        if (done) return false;
+        done = true;
+        shared.callers--;
+        signal?.removeEventListener?.("abort", cancel);
+        return true;
       };
-    } else {
-      return {
-        message: error.message || "Unknown error occurred",
-        statusCode: 0,
-        originalError: error,
+      const cancel = () => {
+        if (!leave()) return;
+        if (shared.callers === 0) shared.abort();
+        reject(new CanceledError());
       };
+
+      shared.promise.then(
+        (response) => leave() && resolve(response),
+        (error) => leave() && reject(error),
+      );
+      if (signal?.aborted) cancel();
+      else signal?.addEventListener?.("abort", cancel);
+    });
+  }
+
+  // Send the request, retrying according to the retry policy
+  private async sendRequest<T>(
+    config: MetaRequestConfig,
+    retryConfig: ResolvedRetryConfig | null,
+    state: RequestState,
+  ): Promise<AxiosResponse<T>> {
+    const useAuth = config.betterAxios?.useAuth !== false;
+
+    while (true) {
+      state.attempt++;
+
+      // Wait for an in-flight token refresh so the request uses the new token
+      if (useAuth && this.refreshPromise) {
+        await this.refreshPromise;
+      }
+      if (useAuth) {
+        await this.checkTokenExpiry();
+      }
+
+      const sentToken = this.authToken;
+      try {
+        return await this.sendAttempt<T>(config);
+      } catch (error) {
+        if (!state.authRefreshed && this.canRefreshAuth(error, useAuth)) {
+          state.authRefreshed = true;
+          // Responses that arrive after a failed refresh must not start another one
+          if (sentToken === this.failedRefreshToken) throw error;
+          // Skip the refresh if another request already replaced the token
+          if (!this.authToken || this.authToken === sentToken) {
+            await this.refreshAuthToken().catch(() => {
+              throw error;
+            });
+          }
+          continue;
+        }
+        if (
+          !retryConfig ||
+          !shouldRetry(error, config.method!, state.attempt, retryConfig)
+        ) {
+          throw error;
+        }
+        const delay = computeRetryDelay(error, state.attempt, retryConfig);
+        this.events.emit("request:retry", {
+          ...this.requestEvent(config),
+          attempt: state.attempt,
+          delay,
+          status: axios.isAxiosError(error)
+            ? error.response?.status
+            : undefined,
+        });
+        for (const plugin of config.betterAxios?.plugins ?? this.plugins) {
+          plugin.onRetry?.(
+            { attempt: state.attempt, delay, error },
+            this.pluginContext(plugin, config),
+          );
+        }
+        await sleep(delay, config.signal);
+      }
+    }
+  }
+
+  // Send one attempt, after waiting for the rate limiter if one is configured
+  private async sendAttempt<T>(
+    config: MetaRequestConfig,
+  ): Promise<AxiosResponse<T>> {
+    const limiter = this.rateLimiter;
+    if (!limiter) return this.axiosInstance.request<T>(config);
+
+    const target = this.rateLimitTarget(config);
+    const timeout = config.timeout ?? this.config.timeout ?? 0;
+    const queuedAt = Date.now();
+    const release = await limiter.acquire(target, {
+      priority: config.betterAxios?.priority,
+      signal: config.signal,
+      timeout,
+    });
+
+    try {
+      // Time spent in the queue counts towards the timeout
+      const response = await this.axiosInstance.request<T>(
+        timeout
+          ? {
+              ...config,
+              timeout: Math.max(1, timeout - (Date.now() - queuedAt)),
+            }
+          : config,
+      );
+      limiter.observe(target.host, response.status, response.headers);
+      return response;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        limiter.observe(
+          target.host,
+          error.response.status,
+          error.response.headers,
+        );
+      }
+      throw error;
+    } finally {
+      release();
+    }
+  }
+
+  private rateLimitTarget(config: MetaRequestConfig): RateLimitTarget {
+    const url = config.url ?? "";
+    let host = "";
+    try {
+      host = new URL(this.axiosInstance.getUri(config)).host;
+    } catch {
+      // Relative baseURL, only route rules can match
+    }
+    return {
+      host,
+      path: /^[a-z][a-z\d+.-]*:\/\//i.test(url)
+        ? new URL(url).pathname
+        : url.split("?")[0],
+      urlTemplate: config.betterAxios?.urlTemplate,
+    };
+  }
+
+  // Serve fresh or stale-while-revalidate entries from the cache, otherwise fetch and store
+  private async sendCachedRequest<T>(
+    config: MetaRequestConfig,
+    retryConfig: ResolvedRetryConfig | null,
+    cacheConfig: ResolvedCacheConfig,
+    state: RequestState,
+  ): Promise<ApiResponse<T>> {
+    // Keyed by the resolved URL and who the request is made as, so users and environments never share entries
+    const meta = config.betterAxios;
+    const key = createCacheKey(
+      config.method!,
+      this.axiosInstance.getUri({ url: config.url, baseURL: config.baseURL }),
+      config.params,
+      authIdentity(meta?.useAuth !== false, this.authToken, meta?.authStrategy),
+    );
+    const cached = await cacheConfig.store.get(key);
+    const now = Date.now();
+
+    if (cached && now < cached.expiresAt) {
+      return this.fromCacheEntry(cached);
+    }
+    if (cached && now < cached.staleUntil) {
+      this.revalidateInBackground(key, config, cacheConfig, cached);
+      return this.fromCacheEntry(cached);
+    }
+    return this.fetchAndCache(
+      key,
+      config,
+      retryConfig,
+      cacheConfig,
+      state,
+      cached,
+    );
+  }
+
+  private async fetchAndCache<T>(
+    key: string,
+    config: MetaRequestConfig,
+    retryConfig: ResolvedRetryConfig | null,
+    cacheConfig: ResolvedCacheConfig,
+    state: RequestState,
+    cached?: CacheEntry,
+  ): Promise<ApiResponse<T>> {
+    // Revalidate with If-None-Match when the cached entry has an ETag
+    const requestConfig: MetaRequestConfig = cached?.etag
+      ? {
+          ...config,
+          headers: { ...(config.headers as any), "If-None-Match": cached.etag },
+          validateStatus: (status) =>
+            status === 304 ||
+            (config.validateStatus
+              ? config.validateStatus(status)
+              : status >= 200 && status < 300),
+        }
+      : config;
+    const response = await this.sendRequest<T>(
+      requestConfig,
+      retryConfig,
+      state,
+    );
+
+    if (response.status === 304 && cached) {
+      const entry = createCacheEntry(
+        key,
+        {
+          ...response,
+          data: cached.data,
+          status: cached.statusCode,
+          statusText: cached.message ?? "",
+        },
+        cacheConfig,
+      );
+      if (entry) {
+        entry.etag = entry.etag ?? cached.etag;
+        await cacheConfig.store.set(key, entry);
+      }
+      return this.fromCacheEntry(entry ?? cached);
+    }
+
+    const entry = createCacheEntry(key, response, cacheConfig);
+    if (entry) {
+      // The caller gets response.data, so the store keeps its own copy
+      await cacheConfig.store.set(key, {
+        ...entry,
+        data: cloneData(entry.data),
+      });
+    }
+    return this.toApiResponse(response);
+  }
+
+  private revalidateInBackground(
+    key: string,
+    config: MetaRequestConfig,
+    cacheConfig: ResolvedCacheConfig,
+    cached: CacheEntry,
+  ): void {
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+
+    this.fetchAndCache(
+      key,
+      config,
+      null,
+      cacheConfig,
+      { attempt: 0, authRefreshed: false },
+      cached,
+    )
+      // Keep serving the stale entry if revalidation fails
+      .catch(() => undefined)
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  // Validate data against a schema, returning the parsed value
+  private validate<T>(
+    schema: Schema<T>,
+    data: unknown,
+    target: "Request" | "Response",
+    response?: ApiResponse,
+  ): T {
+    const result = validateSchema(schema, data);
+    if (result.success) return result.data;
+
+    throw new ValidationError(
+      `${target} validation failed: ${formatIssues(result.issues)}`,
+      { issues: result.issues, statusCode: response?.statusCode, data },
+    );
+  }
+
+  private toApiResponse<T>(response: AxiosResponse<T>): ApiResponse<T> {
+    return {
+      data: response.data,
+      success: true,
+      statusCode: response.status,
+      message: response.statusText,
+    };
+  }
+
+  // Every hit gets its own copy, so callers cannot change the cached data
+  private fromCacheEntry<T>(entry: CacheEntry): ApiResponse<T> {
+    return {
+      data: cloneData(entry.data),
+      success: true,
+      statusCode: entry.statusCode,
+      message: entry.message,
+      fromCache: true,
+    };
+  }
+
+  // Remove cached responses whose URL matches the pattern, or all of them
+  async invalidateCache(pattern?: string | RegExp): Promise<void> {
+    const keys = await this.cacheStore.keys();
+    for (const key of keys) {
+      if (!pattern || matchesCacheKey(key, pattern, this.config.baseURL)) {
+        await this.cacheStore.delete(key);
+      }
+    }
+  }
+
+  private async toResult<T>(
+    request: Promise<ApiResponse<T>>,
+  ): Promise<ApiResult<T>> {
+    try {
+      const response = await request;
+      return { ok: true, data: response.data, response };
+    } catch (error) {
+      return { ok: false, error: error as ApiError };
     }
   }
 
   // HTTP Methods
+  async request<T = any>(
+    method: HttpMethod,
+    url: string,
+    config: RequestConfig<T> = {},
+  ): Promise<ApiResponse<T>> {
+    return this.makeRequest<T>(method, url, config);
+  }
+
   async get<T = any>(
     url: string,
-    config: RequestConfig = {},
+    config: RequestConfig<T> = {},
   ): Promise<ApiResponse<T>> {
     return this.makeRequest<T>("GET", url, config);
   }
@@ -210,7 +1081,7 @@ export class AxiosApi {
   async post<T = any>(
     url: string,
     data?: any,
-    config: RequestConfig = {},
+    config: RequestConfig<T> = {},
   ): Promise<ApiResponse<T>> {
     return this.makeRequest<T>("POST", url, { ...config, data });
   }
@@ -218,7 +1089,7 @@ export class AxiosApi {
   async put<T = any>(
     url: string,
     data?: any,
-    config: RequestConfig = {},
+    config: RequestConfig<T> = {},
   ): Promise<ApiResponse<T>> {
     return this.makeRequest<T>("PUT", url, { ...config, data });
   }
@@ -226,14 +1097,14 @@ export class AxiosApi {
   async patch<T = any>(
     url: string,
     data?: any,
-    config: RequestConfig = {},
+    config: RequestConfig<T> = {},
   ): Promise<ApiResponse<T>> {
     return this.makeRequest<T>("PATCH", url, { ...config, data });
   }
 
   async delete<T = any>(
     url: string,
-    config: RequestConfig = {},
+    config: RequestConfig<T> = {},
   ): Promise<ApiResponse<T>> {
     return this.makeRequest<T>("DELETE", url, config);
   }
@@ -252,6 +1123,52 @@ export class AxiosApi {
     this.config.baseURL = baseURL;
   }
 
+  // Subscribe to lifecycle events. Returns a function that unsubscribes.
+  on<K extends ApiEventName>(
+    event: K,
+    listener: ApiEventListener<K>,
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  once<K extends ApiEventName>(
+    event: K,
+    listener: ApiEventListener<K>,
+  ): () => void {
+    return this.events.once(event, listener);
+  }
+
+  off<K extends ApiEventName>(event: K, listener: ApiEventListener<K>): void {
+    this.events.off(event, listener);
+  }
+
+  // Add a plugin after the installed ones. Returns a function that removes it again.
+  use<TOptions>(plugin: Plugin<TOptions>): () => void {
+    if (this.plugins.some((installed) => installed.name === plugin.name)) {
+      throw new Error(`A plugin named "${plugin.name}" is already installed`);
+    }
+    this.plugins.push(plugin);
+    return () => this.removePlugin(plugin);
+  }
+
+  removePlugin(plugin: Plugin<any> | string): void {
+    this.plugins = this.plugins.filter((installed) =>
+      typeof plugin === "string"
+        ? installed.name !== plugin
+        : installed !== plugin,
+    );
+  }
+
+  // Cancel every request in flight on this client
+  cancelAll(): void {
+    for (const controller of Array.from(this.controllers)) controller.abort();
+  }
+
+  // Group requests to cancel them together, e.g. when a page is left
+  createAbortGroup(): AbortGroup {
+    return new AbortGroup();
+  }
+
   // Get the underlying axios instance for advanced usage
   getAxiosInstance(): AxiosInstance {
     return this.axiosInstance;
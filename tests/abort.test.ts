@@ -0,0 +1,119 @@
+import { AxiosApi } from "../src/wrapper";
+import { CancelledError, isCancelledError } from "../src/errors";
+import { createMockApi } from "../src/testing";
+
+describe("cancellation", () => {
+  let api: AxiosApi;
+  let globalErrorHandler: jest.Mock;
+
+  beforeEach(() => {
+    globalErrorHandler = jest.fn();
+    api = new AxiosApi({
+      baseURL: "https://api.example.com",
+      globalErrorHandler,
+    });
+    const mock = createMockApi(api);
+    mock.onGet("/slow").delay(1000).reply(200, { slow: true });
+    mock
+      .onGet("/search")
+      .delay(20)
+      .reply((request) => [200, { q: request.query.q }]);
+    mock.onGet("/fail").reply(500);
+  });
+
+  it("cancels every request in an abort group", async () => {
+    const group = api.createAbortGroup();
+    const first = api.get("/slow", { abortGroup: group });
+    const second = api.get("/slow", { abortGroup: group });
+    const other = api.get("/search", { params: { q: "kept" } });
+
+    await Promise.resolve();
+    expect(group.size).toBe(2);
+    group.cancel();
+
+    await expect(first).rejects.toBeInstanceOf(CancelledError);
+    await expect(second).rejects.toBeInstanceOf(CancelledError);
+    expect((await other).data).toEqual({ q: "kept" });
+    expect(group.size).toBe(0);
+
+    // The group stays usable after cancelling
+    const next = api.get("/search", {
+      params: { q: "again" },
+      abortGroup: group,
+    });
+    expect((await next).data).toEqual({ q: "again" });
+  });
+
+  it("cancels all requests in flight", async () => {
+    const requests = [api.get("/slow"), api.post("/slow").catch((e) => e)];
+    api.cancelAll();
+
+    await expect(requests[0]).rejects.toBeInstanceOf(CancelledError);
+    expect(isCancelledError(await requests[1])).toBe(true);
+  });
+
+  it("keeps only the latest request with the same key", async () => {
+    const results = ["a", "ad", "ada"].map((q) =>
+      api.get("/search", { params: { q }, latestOnly: "search" }).then(
+        (response) => response.data.q,
+        (error) => error.code,
+      ),
+    );
+
+    expect(await Promise.all(results)).toEqual([
+      "CANCELLED",
+      "CANCELLED",
+      "ada",
+    ]);
+
+    // `true` uses the method and URL as the key
+    const slow = api.get("/slow", { latestOnly: true });
+    const fast = api.get("/search", { latestOnly: true, params: { q: "x" } });
+    api.get("/slow", { latestOnly: true }).catch(() => undefined);
+    await expect(slow).rejects.toBeInstanceOf(CancelledError);
+    expect((await fast).data).toEqual({ q: "x" });
+    api.cancelAll();
+  });
+
+  it("skips the global error handler for cancellations unless reported", async () => {
+    const customErrorHandler = jest.fn();
+    const request = api.get("/slow", { customErrorHandler });
+    const withoutCustom = api.get("/slow");
+    api.cancelAll();
+    await expect(request).rejects.toBeInstanceOf(CancelledError);
+    await expect(withoutCustom).rejects.toBeInstanceOf(CancelledError);
+    expect(customErrorHandler).toHaveBeenCalledTimes(1);
+    expect(globalErrorHandler).not.toHaveBeenCalled();
+
+    await expect(api.get("/fail")).rejects.toMatchObject({ statusCode: 500 });
+    expect(globalErrorHandler).toHaveBeenCalledTimes(1);
+
+    const reporting = new AxiosApi({
+      baseURL: "https://api.example.com",
+      globalErrorHandler,
+      reportCancellations: true,
+    });
+    createMockApi(reporting).onGet("/slow").delay(1000).reply(200);
+    const reported = reporting.get("/slow");
+    reporting.cancelAll();
+    await expect(reported).rejects.toBeInstanceOf(CancelledError);
+    expect(globalErrorHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it("follows the caller's signal and stops retrying once cancelled", async () => {
+    const retrying = new AxiosApi({
+      baseURL: "https://api.example.com",
+      retry: { maxAttempts: 5, baseDelay: 1000, jitter: false },
+    });
+    const mock = createMockApi(retrying);
+    mock.onGet("/flaky").reply(503);
+
+    const controller = new AbortController();
+    const request = retrying.get("/flaky", { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(CancelledError);
+    expect(mock.history).toHaveLength(1);
+  });
+});
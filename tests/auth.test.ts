@@ -0,0 +1,269 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { AxiosApi } from "../src/wrapper";
+import { apiKeyAuth, basicAuth, bearerAuth, customAuth } from "../src/auth";
+
+describe("AxiosApi auth refresh", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    // Protected endpoints only accept the refreshed token
+    mock
+      .onGet(/\/protected\/.*/)
+      .reply((config) =>
+        config.headers?.Authorization === "Bearer fresh"
+          ? [200, { url: config.url }]
+          : [401, { message: "Token expired" }],
+      );
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("should refresh the token on 401 and replay the request", async () => {
+    const refresh = jest.fn().mockResolvedValue("fresh");
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      auth: { refresh },
+    });
+    api.setAuthToken("stale");
+
+    const response = await api.get("/protected/me");
+
+    expect(response.data).toEqual({ url: "/protected/me" });
+    expect(refresh).toHaveBeenCalledWith("stale");
+    expect(api.getAuthToken()).toBe("fresh");
+    expect(mock.history.get.length).toBe(2);
+  });
+
+  it("should share a single refresh between concurrent requests", async () => {
+    const refresh = jest.fn(
+      () =>
+        new Promise<string>((resolve) =>
+          setTimeout(() => resolve("fresh"), 20),
+        ),
+    );
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      auth: { refresh },
+    });
+    api.setAuthToken("stale");
+
+    const responses = await Promise.all([
+      api.get("/protected/a"),
+      api.get("/protected/b"),
+      api.get("/protected/c"),
+    ]);
+
+    expect(responses.map((r) => r.statusCode)).toEqual([200, 200, 200]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it("should pause requests started while a refresh is in flight", async () => {
+    let finishRefresh!: (token: string) => void;
+    const refresh = jest.fn(
+      () => new Promise<string>((resolve) => (finishRefresh = resolve)),
+    );
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      auth: { refresh },
+    });
+    api.setAuthToken("stale");
+
+    const first = api.get("/protected/first");
+    await new Promise((r) => setTimeout(r, 10));
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    const second = api.get("/protected/second");
+    await new Promise((r) => setTimeout(r, 10));
+    finishRefresh("fresh");
+
+    await expect(first).resolves.toMatchObject({ statusCode: 200 });
+    await expect(second).resolves.toMatchObject({ statusCode: 200 });
+    // The paused request was only sent once, with the new token
+    expect(
+      mock.history.get.filter((c) => c.url === "/protected/second").length,
+    ).toBe(1);
+  });
+
+  it("should call onAuthFailure once when the refresh fails", async () => {
+    const onAuthFailure = jest.fn();
+    const globalErrorHandler = jest.fn();
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      globalErrorHandler,
+      auth: {
+        refresh: jest.fn().mockRejectedValue(new Error("Session revoked")),
+        onAuthFailure,
+      },
+    });
+    api.setAuthToken("stale");
+
+    const results = await Promise.allSettled([
+      api.get("/protected/a"),
+      api.get("/protected/b"),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    expect((results[0] as PromiseRejectedResult).reason.statusCode).toBe(401);
+    expect(onAuthFailure).toHaveBeenCalledTimes(1);
+    expect(onAuthFailure.mock.calls[0][0].message).toBe("Session revoked");
+    expect(globalErrorHandler).toHaveBeenCalledTimes(2);
+    expect(api.getAuthToken()).toBeNull();
+  });
+
+  it("should not refresh again for a token whose refresh failed", async () => {
+    mock.reset();
+    mock.onGet("/fast").reply(401);
+    mock
+      .onGet("/slow")
+      .reply(
+        () => new Promise((resolve) => setTimeout(() => resolve([401]), 30)),
+      );
+    const refresh = jest.fn().mockRejectedValue(new Error("Session revoked"));
+    const onAuthFailure = jest.fn();
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      auth: { refresh, onAuthFailure },
+    });
+    api.setAuthToken("stale");
+
+    const results = await Promise.allSettled([
+      api.get("/fast"),
+      api.get("/slow"),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    expect((results[1] as PromiseRejectedResult).reason.statusCode).toBe(401);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(onAuthFailure).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refresh again after a failed refresh with no token set", async () => {
+    mock.reset();
+    mock
+      .onGet("/me")
+      .reply((config) =>
+        config.headers?.Authorization === "Bearer fresh" ? [200, {}] : [401],
+      );
+    const refresh = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("Refresh endpoint down"))
+      .mockResolvedValue("fresh");
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      auth: { refresh },
+    });
+
+    await expect(api.get("/me")).rejects.toMatchObject({ statusCode: 401 });
+    await expect(api.get("/me")).resolves.toMatchObject({ statusCode: 200 });
+    expect(refresh).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not refresh for requests made without auth", async () => {
+    const refresh = jest.fn().mockResolvedValue("fresh");
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      auth: { refresh },
+    });
+
+    await expect(
+      api.get("/protected/public", { useAuth: false }),
+    ).rejects.toMatchObject({ statusCode: 401 });
+    expect(refresh).not.toHaveBeenCalled();
+  });
+});
+
+describe("AxiosApi auth strategies", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock.onAny().reply((config) => [
+      200,
+      {
+        authorization: config.headers?.Authorization,
+        apiKey: config.headers?.["X-API-Key"],
+        params: config.params,
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("should send the bearer token by default", async () => {
+    const api = new AxiosApi({ baseURL: "https://example.com" });
+    api.setAuthToken("abc123");
+
+    const response = await api.get("/me");
+    expect(response.data.authorization).toBe("Bearer abc123");
+  });
+
+  it("should not send the token when useAuth is false", async () => {
+    const api = new AxiosApi({ baseURL: "https://example.com" });
+    api.setAuthToken("abc123");
+
+    const response = await api.get("/public", { useAuth: false });
+    expect(response.data.authorization).toBeUndefined();
+  });
+
+  it("should strip a default auth header when useAuth is false", async () => {
+    const api = new AxiosApi({ baseURL: "https://example.com" });
+    api.setDefaultHeader("Authorization", "Bearer static");
+
+    const response = await api.get("/public", { useAuth: false });
+    expect(response.data.authorization).toBeUndefined();
+  });
+
+  it("should support basic auth", async () => {
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      authStrategy: basicAuth({ username: "user", password: "pass" }),
+    });
+
+    const response = await api.get("/me");
+    expect(response.data.authorization).toBe(
+      `Basic ${Buffer.from("user:pass").toString("base64")}`,
+    );
+  });
+
+  it("should send API keys in a header or the query string", async () => {
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      authStrategy: apiKeyAuth({ in: "header", name: "X-API-Key" }),
+    });
+    api.setAuthToken("key-1");
+
+    const header = await api.get("/items");
+    expect(header.data.apiKey).toBe("key-1");
+    expect(header.data.authorization).toBeUndefined();
+
+    const query = await api.get("/items", {
+      params: { page: 2 },
+      authStrategy: apiKeyAuth({ in: "query", name: "api_key", key: "key-2" }),
+    });
+    expect(query.data.params).toEqual({ page: 2, api_key: "key-2" });
+    expect(query.data.apiKey).toBeUndefined();
+  });
+
+  it("should allow per-request and custom strategies", async () => {
+    const api = new AxiosApi({ baseURL: "https://example.com" });
+    api.setAuthToken("abc123");
+
+    const custom = await api.get("/signed", {
+      authStrategy: customAuth((config, { token }) => {
+        config.headers.set("Authorization", `Token ${token}`);
+      }),
+    });
+    expect(custom.data.authorization).toBe("Token abc123");
+
+    const prefixed = await api.get("/legacy", {
+      authStrategy: bearerAuth({ prefix: "JWT " }),
+    });
+    expect(prefixed.data.authorization).toBe("JWT abc123");
+  });
+});
@@ -0,0 +1,305 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AxiosApi } from "../src/wrapper";
+import {
+  FileCacheStore,
+  MemoryCacheStore,
+  createCacheKey,
+  matchesCacheKey,
+  parseCacheControl,
+} from "../src/cache";
+
+const wait = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("AxiosApi response cache", () => {
+  let mock: MockAdapter;
+  let version: number;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    version = 0;
+    mock.onGet("/countries").reply(() => [200, { version: ++version }]);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("should not cache unless enabled", async () => {
+    const api = new AxiosApi({ baseURL: "https://example.com" });
+    await api.get("/countries");
+    await api.get("/countries");
+    expect(mock.history.get.length).toBe(2);
+  });
+
+  it("should serve fresh responses from the cache", async () => {
+    const successHandler = jest.fn();
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      cache: { ttl: 1000 },
+      globalSuccessHandler: successHandler,
+    });
+
+    const first = await api.get("/countries");
+    const second = await api.get("/countries");
+
+    expect(first.fromCache).toBeUndefined();
+    expect(second).toEqual({
+      data: { version: 1 },
+      success: true,
+      statusCode: 200,
+      message: undefined,
+      fromCache: true,
+    });
+    expect(mock.history.get.length).toBe(1);
+    expect(successHandler).toHaveBeenCalledTimes(2);
+    expect(successHandler.mock.calls[1][0].fromCache).toBe(true);
+  });
+
+  it("should key entries by URL and params", async () => {
+    mock
+      .onGet("/search")
+      .reply((config) => [
+        200,
+        { q: config.params.q, page: config.params.page },
+      ]);
+    const api = new AxiosApi({ baseURL: "https://example.com", cache: true });
+
+    await api.get("/search", { params: { q: "a", page: 1 } });
+    const cached = await api.get("/search", { params: { page: 1, q: "a" } });
+    const other = await api.get("/search", { params: { q: "b", page: 1 } });
+
+    expect(cached.fromCache).toBe(true);
+    expect(other.fromCache).toBeUndefined();
+    expect(other.data.q).toBe("b");
+  });
+
+  it("should refetch once the TTL has passed", async () => {
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      cache: { ttl: 10 },
+    });
+
+    await api.get("/countries");
+    await wait(20);
+    const response = await api.get("/countries");
+
+    expect(response.data.version).toBe(2);
+    expect(response.fromCache).toBeUndefined();
+  });
+
+  it("should serve stale responses while revalidating", async () => {
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      cache: { ttl: 10, staleWhileRevalidate: 5000 },
+    });
+
+    await api.get("/countries");
+    await wait(20);
+
+    const stale = await api.get("/countries");
+    expect(stale.data.version).toBe(1);
+    expect(stale.fromCache).toBe(true);
+
+    await wait(10);
+    const revalidated = await api.get("/countries");
+    expect(revalidated.data.version).toBe(2);
+    expect(mock.history.get.length).toBe(2);
+  });
+
+  it("should honor Cache-Control headers", async () => {
+    mock
+      .onGet("/no-store")
+      .reply(200, { ok: true }, { "cache-control": "no-store" });
+    mock
+      .onGet("/short")
+      .reply(200, { ok: true }, { "cache-control": "max-age=0" });
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      cache: { ttl: 60000 },
+    });
+
+    await api.get("/no-store");
+    await api.get("/no-store");
+    await api.get("/short");
+    await api.get("/short");
+
+    expect(mock.history.get.length).toBe(4);
+  });
+
+  it("should revalidate with If-None-Match and reuse data on 304", async () => {
+    mock
+      .onGet("/config")
+      .reply((config) =>
+        config.headers?.["If-None-Match"] === '"v1"'
+          ? [304, undefined, { etag: '"v1"' }]
+          : [
+              200,
+              { theme: "dark" },
+              { etag: '"v1"', "cache-control": "no-cache" },
+            ],
+      );
+    const api = new AxiosApi({ baseURL: "https://example.com", cache: true });
+
+    const first = await api.get("/config");
+    const second = await api.get("/config");
+
+    expect(first.data).toEqual({ theme: "dark" });
+    expect(second).toMatchObject({
+      data: { theme: "dark" },
+      statusCode: 200,
+      fromCache: true,
+    });
+    expect(mock.history.get.length).toBe(2);
+    expect(mock.history.get[1].headers?.["If-None-Match"]).toBe('"v1"');
+  });
+
+  it("should key entries by auth identity and base URL", async () => {
+    mock
+      .onGet("/me")
+      .reply((config) => [
+        200,
+        { auth: config.headers?.Authorization, baseURL: config.baseURL },
+      ]);
+    const api = new AxiosApi({ baseURL: "http://staging", cache: true });
+
+    await api.setAuthToken("alice");
+    await api.get("/me");
+    await api.setAuthToken("bob");
+    const bob = await api.get("/me");
+    api.updateBaseURL("http://prod");
+    const prod = await api.get("/me");
+
+    expect(bob.data).toEqual({ auth: "Bearer bob", baseURL: "http://staging" });
+    expect(prod.data).toEqual({ auth: "Bearer bob", baseURL: "http://prod" });
+    expect(mock.history.get.length).toBe(3);
+
+    const key = createCacheKey("GET", "http://prod/me", {}, "default:bob");
+    expect(key).toMatch(/^GET http:\/\/prod\/me \w+$/);
+    expect(key).not.toContain("bob");
+    expect(matchesCacheKey(key, "/me", "http://prod/")).toBe(true);
+    expect(matchesCacheKey(key, "http://prod/*")).toBe(true);
+  });
+
+  it("should not let callers change cached data", async () => {
+    mock.onGet("/list").reply(200, { items: [1] });
+    const api = new AxiosApi({ baseURL: "https://example.com", cache: true });
+
+    const first = await api.get("/list");
+    first.data.items.push(2);
+    const second = await api.get("/list");
+    second.data.items.push(3);
+    const third = await api.get("/list");
+
+    expect(third).toMatchObject({ data: { items: [1] }, fromCache: true });
+  });
+
+  it("should invalidate entries matching a pattern", async () => {
+    mock.onGet("/users/1").reply(200, { id: 1 });
+    const api = new AxiosApi({ baseURL: "https://example.com", cache: true });
+
+    await api.get("/countries");
+    await api.get("/users/1");
+    await api.invalidateCache("/users/*");
+    await api.get("/countries");
+    await api.get("/users/1");
+    expect(mock.history.get.length).toBe(3);
+
+    await api.invalidateCache();
+    await api.get("/countries");
+    expect(mock.history.get.length).toBe(4);
+  });
+
+  it("should allow bypassing the cache per request", async () => {
+    const api = new AxiosApi({ baseURL: "https://example.com", cache: true });
+
+    await api.get("/countries");
+    const response = await api.get("/countries", { cache: false });
+
+    expect(response.data.version).toBe(2);
+    expect(mock.history.get.length).toBe(2);
+  });
+
+  it("should not cache failed requests", async () => {
+    mock.onGet("/broken").replyOnce(500).onGet("/broken").reply(200, {});
+    const api = new AxiosApi({ baseURL: "https://example.com", cache: true });
+
+    await expect(api.get("/broken")).rejects.toMatchObject({ statusCode: 500 });
+    await expect(api.get("/broken")).resolves.toMatchObject({
+      statusCode: 200,
+    });
+  });
+});
+
+describe("Cache stores and helpers", () => {
+  it("should evict the least recently used entries", () => {
+    const store = new MemoryCacheStore(2);
+    const entry = (key: string) => ({
+      key,
+      data: key,
+      statusCode: 200,
+      storedAt: 0,
+      expiresAt: 0,
+      staleUntil: 0,
+    });
+
+    store.set("a", entry("a"));
+    store.set("b", entry("b"));
+    store.get("a");
+    store.set("c", entry("c"));
+
+    expect(store.keys().sort()).toEqual(["a", "c"]);
+  });
+
+  it("should persist entries to disk", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "better-axios-cache-"));
+    try {
+      const store = new FileCacheStore(dir);
+      const key = createCacheKey("GET", "/users", { page: 1 });
+      await store.set(key, {
+        key,
+        data: { users: [] },
+        statusCode: 200,
+        storedAt: 1,
+        expiresAt: 2,
+        staleUntil: 3,
+      });
+
+      const reopened = new FileCacheStore(dir);
+      expect(await reopened.keys()).toEqual([key]);
+      expect((await reopened.get(key))?.data).toEqual({ users: [] });
+      await reopened.delete(key);
+      expect(await reopened.get(key)).toBeUndefined();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should build stable cache keys and match patterns", () => {
+    const key = createCacheKey("get", "/users", {
+      b: 2,
+      a: 1,
+      skip: undefined,
+    });
+    expect(key).toBe("GET /users?a=1&b=2");
+    expect(matchesCacheKey(key, "/users*")).toBe(true);
+    expect(matchesCacheKey(key, "/users")).toBe(false);
+    expect(matchesCacheKey(key, /^\/users\?/)).toBe(true);
+  });
+
+  it("should parse Cache-Control directives", () => {
+    expect(
+      parseCacheControl("public, max-age=60, stale-while-revalidate=30"),
+    ).toEqual({
+      noStore: false,
+      noCache: false,
+      maxAge: 60,
+      staleWhileRevalidate: 30,
+    });
+    expect(parseCacheControl("no-store").noStore).toBe(true);
+    expect(parseCacheControl(undefined).noCache).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { execFile, execFileSync } from "child_process";
+import { promises as fs } from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+
+const root = path.resolve(__dirname, "..");
+
+// Runs the bin as published: the CommonJS build from tsconfig.cli.json
+describe("axios-wrapper bin", () => {
+  let dir: string;
+  let bin: string;
+
+  const run = (
+    args: string[],
+  ): Promise<{ code: number; stdout: string; stderr: string }> =>
+    new Promise((resolve) => {
+      execFile(
+        process.execPath,
+        [bin, ...args],
+        {
+          cwd: dir,
+          timeout: 30000,
+          // The build lives outside the repo, so point it at our dependencies
+          env: {
+            ...process.env,
+            NODE_PATH: path.join(root, "node_modules"),
+            FORCE_COLOR: "0",
+          },
+        },
+        (error, stdout, stderr) =>
+          resolve({
+            code: error ? Number(error.code) || 1 : 0,
+            stdout,
+            stderr,
+          }),
+      );
+    });
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "better-axios-cli-"));
+    const out = path.join(dir, "dist");
+    execFileSync(
+      process.execPath,
+      [
+        require.resolve("typescript/bin/tsc"),
+        "-p",
+        path.join(root, "tsconfig.cli.json"),
+        "--outDir",
+        out,
+      ],
+      { timeout: 120000 },
+    );
+    bin = path.join(out, "cli.js");
+  }, 150000);
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should print help and version", async () => {
+    const help = await run(["--help"]);
+    expect(help.code).toBe(0);
+    expect(help.stdout).toContain("Usage: axios-wrapper");
+    expect(help.stdout).toContain("generate");
+
+    const version = await run(["--version"]);
+    expect(version.stdout.trim()).toMatch(/^\d+\.\d+\.\d+/);
+  });
+
+  it("should generate a client from a spec", async () => {
+    await fs.writeFile(
+      path.join(dir, "spec.json"),
+      JSON.stringify({
+        openapi: "3.0.3",
+        info: { title: "Pets", version: "1.0.0" },
+        paths: {
+          "/pets": {
+            get: {
+              operationId: "listPets",
+              responses: { "200": { description: "OK" } },
+            },
+          },
+        },
+      }),
+    );
+
+    const result = await run(["generate", "-s", "spec.json", "-o", "client"]);
+
+    expect(result.code).toBe(0);
+    expect(result.stdout).toContain("Generated");
+    expect(await fs.readdir(path.join(dir, "client"))).not.toHaveLength(0);
+  });
+
+  describe("request commands", () => {
+    let server: http.Server;
+    let baseURL: string;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          res.statusCode = req.url === "/missing" ? 404 : 200;
+          res.setHeader("content-type", "application/json");
+          res.end(JSON.stringify({ method: req.method, url: req.url, body }));
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should send GET and POST requests", async () => {
+      const get = await run([
+        "get",
+        "/users",
+        "-q",
+        "page=2",
+        "--base-url",
+        baseURL,
+        "--no-prompt",
+      ]);
+      expect(get.code).toBe(0);
+      expect(get.stdout).toContain(`GET ${baseURL}/users`);
+      expect(get.stdout).toContain("200 OK");
+      expect(get.stdout).toContain('"url": "/users?page=2"');
+
+      const post = await run([
+        "request",
+        "post",
+        "/users",
+        "-d",
+        '{"name":"Ada"}',
+        "--base-url",
+        baseURL,
+        "--no-prompt",
+      ]);
+      expect(post.code).toBe(0);
+      expect(post.stdout).toContain('"method": "POST"');
+      expect(post.stdout).toContain('\\"name\\":\\"Ada\\"');
+    });
+
+    it("should exit with an error on failed responses", async () => {
+      const result = await run(["get", "/missing", "--base-url", baseURL]);
+
+      expect(result.code).toBe(1);
+      expect(result.stdout).toContain("404 Not Found");
+    });
+  });
+});
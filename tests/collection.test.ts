@@ -0,0 +1,217 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import axios from "axios";
+import chalk from "chalk";
+import MockAdapter from "axios-mock-adapter";
+import {
+  Collection,
+  interpolate,
+  loadCollection,
+  runCollection,
+  toJUnitXml,
+} from "../src/collection";
+import { runCommand } from "../src/commands/run";
+
+const collection: Collection = {
+  name: "Smoke",
+  baseURL: "https://{{host}}",
+  variables: { host: "api.example.com", email: "qa@example.com" },
+  environments: { staging: { host: "staging.example.com" } },
+  requests: [
+    {
+      name: "Login",
+      method: "POST",
+      url: "/login",
+      useAuth: false,
+      body: { email: "{{email}}", attempts: "{{attempts}}" },
+      extract: { token: "body.token", requestId: "headers.X-Request-Id" },
+      setAuthToken: "{{token}}",
+      assert: { status: 200, "body.token": { exists: true, type: "string" } },
+    },
+    {
+      name: "Profile",
+      url: "/users/{{requestId}}",
+      assert: {
+        status: 200,
+        "body.email": "{{email}}",
+        "body.roles": { contains: "admin" },
+        "body.visits": { gt: 10 },
+      },
+    },
+  ],
+};
+
+describe("Collections", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock
+      .onPost("https://staging.example.com/login")
+      .reply(200, { token: "t-1" }, { "x-request-id": "r-9" });
+    mock.onGet("https://staging.example.com/users/r-9").reply(200, {
+      email: "qa@example.com",
+      roles: ["user", "admin"],
+      visits: 3,
+    });
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("should chain variables, auth tokens and assertions", async () => {
+    const report = await runCollection(collection, {
+      env: "staging",
+      variables: { attempts: 2 },
+    });
+
+    expect(JSON.parse(mock.history.post[0].data)).toEqual({
+      email: "qa@example.com",
+      attempts: 2,
+    });
+    expect(mock.history.post[0].headers?.Authorization).toBeUndefined();
+    expect(mock.history.get[0].headers?.Authorization).toBe("Bearer t-1");
+
+    expect(report.passed).toBe(1);
+    expect(report.failed).toBe(1);
+    expect(report.results[1]).toMatchObject({
+      url: "/users/r-9",
+      statusCode: 200,
+      passed: false,
+      failures: ["body.visits: expected gt 10, got 3"],
+    });
+  });
+
+  it("should assert on error statuses and skip the rest with bail", async () => {
+    mock.onGet("https://api.example.com/missing").reply(404, { code: "E1" });
+    const report = await runCollection(
+      {
+        baseURL: "https://api.example.com",
+        requests: [
+          {
+            name: "Missing",
+            url: "/missing",
+            assert: { status: 404, "body.code": "E1" },
+          },
+          { name: "Default assertion", url: "/missing" },
+          { name: "Never sent", url: "/missing" },
+        ],
+      },
+      { bail: true },
+    );
+
+    expect(report.results.map((r) => [r.passed, r.skipped])).toEqual([
+      [true, false],
+      [false, false],
+      [false, true],
+    ]);
+    expect(report.results[1].failures).toEqual([
+      "status: expected lt 300, got 404",
+    ]);
+    expect(mock.history.get.length).toBe(2);
+  });
+
+  it("should report network errors and unknown variables", async () => {
+    mock.onGet("https://api.example.com/down").networkError();
+    const report = await runCollection({
+      baseURL: "https://api.example.com",
+      requests: [
+        { name: "Down", url: "/down" },
+        { name: "Typo", url: "/users/{{userId}}" },
+      ],
+    });
+
+    expect(report.results[0].error).toBe("Network Error");
+    expect(report.results[1].error).toBe('Unknown variable "userId"');
+    expect(report.failed).toBe(2);
+  });
+
+  it("should render JUnit XML", async () => {
+    const report = await runCollection(collection, {
+      env: "staging",
+      variables: { attempts: 1 },
+    });
+    const xml = toJUnitXml(report);
+
+    expect(xml).toContain(
+      '<testsuites name="Smoke" tests="2" failures="1" errors="0" skipped="0"',
+    );
+    expect(xml).toMatch(
+      /<testcase name="Login" classname="Smoke" time="[\d.]+"\/>/,
+    );
+    expect(xml).toContain(
+      '<failure message="body.visits: expected gt 10, got 3">',
+    );
+  });
+
+  it("should keep the type of whole-value placeholders", () => {
+    expect(interpolate({ n: "{{n}}", s: "id-{{n}}" }, { n: 5 })).toEqual({
+      n: 5,
+      s: "id-5",
+    });
+  });
+});
+
+describe("collection entry point", () => {
+  it("should keep the YAML parser out of the main entry", () => {
+    jest.isolateModules(() => {
+      jest.doMock("js-yaml", () => {
+        throw new Error("js-yaml was loaded");
+      });
+      const main = require("../src/index");
+      expect(main.AxiosApi).toBeDefined();
+      expect(main.runCollection).toBeUndefined();
+    });
+    jest.dontMock("js-yaml");
+  });
+});
+
+describe("run command", () => {
+  let dir: string;
+  let mock: MockAdapter;
+
+  beforeEach(async () => {
+    chalk.level = 0;
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "better-axios-run-"));
+    mock = new MockAdapter(axios);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    mock.restore();
+    jest.restoreAllMocks();
+    process.exitCode = undefined;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should run a YAML collection and write a JUnit report", async () => {
+    const file = path.join(dir, "collection.yaml");
+    const junit = path.join(dir, "junit.xml");
+    await fs.writeFile(
+      file,
+      [
+        "name: Health",
+        "baseURL: https://{{host}}",
+        "requests:",
+        "  - name: Ping",
+        "    url: /health",
+        "    assert:",
+        "      body.ok: true",
+      ].join("\n"),
+    );
+    mock.onGet("https://local.test/health").reply(200, { ok: false });
+
+    expect((await loadCollection(file)).requests).toHaveLength(1);
+    await runCommand().parseAsync(
+      [file, "--var", "host=local.test", "--junit", junit],
+      { from: "user" },
+    );
+
+    expect(process.exitCode).toBe(1);
+    expect(await fs.readFile(junit, "utf8")).toContain(
+      '<failure message="body.ok: expected equals true, got false">',
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import axios from "axios";
+import chalk from "chalk";
+import MockAdapter from "axios-mock-adapter";
+import { AxiosApi } from "../src/wrapper";
+import { BetterAxiosConfig, resolveProfile } from "../src/config";
+import {
+  createClientFromProfile,
+  findConfigFile,
+  loadConfigFile,
+} from "../src/node";
+import { methodCommands } from "../src/commands/request";
+
+const config: BetterAxiosConfig = {
+  defaultProfile: "development",
+  defaults: {
+    timeout: 5000,
+    defaultHeaders: { "X-Client": "tests" },
+  },
+  profiles: {
+    development: { baseURL: "http://localhost:${PORT:-3000}" },
+    staging: {
+      baseURL: "https://${STAGING_HOST}",
+      defaultHeaders: { "X-Env": "staging" },
+      credentials: { type: "bearer", token: "${STAGING_TOKEN}" },
+    },
+    partner: {
+      baseURL: "https://partner.example.com",
+      credentials: { type: "apiKey", in: "query", name: "key", key: "k-1" },
+    },
+  },
+};
+
+describe("Config file profiles", () => {
+  let dir: string;
+  let mock: MockAdapter;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "better-axios-config-"));
+    await fs.writeFile(
+      path.join(dir, "better-axios.config.json"),
+      JSON.stringify(config),
+    );
+    mock = new MockAdapter(axios);
+  });
+
+  afterEach(async () => {
+    mock.restore();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should create a client from a profile with env interpolation", async () => {
+    mock.onGet("https://staging.example.com/me").reply(200, {});
+
+    const api = await AxiosApi.fromConfigFile({
+      cwd: path.join(dir, "nested"),
+      profile: "staging",
+      env: { STAGING_HOST: "staging.example.com", STAGING_TOKEN: "t-1" },
+    });
+    await api.get("/me");
+
+    const headers = mock.history.get[0].headers!;
+    expect(headers["X-Client"]).toBe("tests");
+    expect(headers["X-Env"]).toBe("staging");
+    expect(headers.Authorization).toBe("Bearer t-1");
+    expect(api.getAxiosInstance().defaults.timeout).toBe(5000);
+  });
+
+  it("should pick the profile from the option, env or default", () => {
+    expect(resolveProfile(config, { env: {} }).config.baseURL).toBe(
+      "http://localhost:3000",
+    );
+    expect(
+      resolveProfile(config, {
+        env: { BETTER_AXIOS_PROFILE: "partner" },
+      }).name,
+    ).toBe("partner");
+    expect(() => resolveProfile(config, { profile: "prod" })).toThrow(
+      'Unknown profile "prod", choose one of: development, staging, partner',
+    );
+    expect(() =>
+      resolveProfile(config, { profile: "staging", env: {} }),
+    ).toThrow(
+      'Environment variable STAGING_HOST is not set (profile "staging")',
+    );
+  });
+
+  it("should map credentials to auth strategies", async () => {
+    mock.onGet("https://partner.example.com/orders").reply(200, []);
+
+    const api = await createClientFromProfile("partner", { cwd: dir });
+    await api.get("/orders");
+
+    expect(mock.history.get[0].params).toEqual({ key: "k-1" });
+  });
+
+  it("should load JS and TS config files", async () => {
+    const js = path.join(dir, "better-axios.config.js");
+    await fs.writeFile(
+      js,
+      'module.exports = { profiles: { local: { baseURL: "http://js.test" } } };',
+    );
+    const ts = path.join(dir, "better-axios.config.ts");
+    await fs.writeFile(
+      ts,
+      [
+        "const timeout: number = 1000;",
+        'export default { profiles: { local: { baseURL: "http://ts.test", timeout } } };',
+      ].join("\n"),
+    );
+
+    expect(await findConfigFile(dir)).toBe(ts);
+    expect((await loadConfigFile(js)).profiles.local.baseURL).toBe(
+      "http://js.test",
+    );
+    expect((await loadConfigFile(ts)).profiles.local).toEqual({
+      baseURL: "http://ts.test",
+      timeout: 1000,
+    });
+  });
+
+  it("should let the CLI use profiles", async () => {
+    chalk.level = 0;
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    mock.onGet("https://partner.example.com/status").reply(200, {});
+
+    await methodCommands()
+      .find((command) => command.name() === "get")!
+      .parseAsync(
+        [
+          "/status",
+          "--config",
+          path.join(dir, "better-axios.config.json"),
+          "--profile",
+          "partner",
+          "--no-prompt",
+        ],
+        { from: "user" },
+      );
+
+    expect(log).toHaveBeenCalledWith("GET https://partner.example.com/status");
+    expect(mock.history.get[0].params).toEqual({ key: "k-1" });
+    log.mockRestore();
+  });
+
+  it("should let the CLI pick the only profile like resolveProfile", async () => {
+    chalk.level = 0;
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    const cwd = jest.spyOn(process, "cwd").mockReturnValue(dir);
+    await fs.writeFile(
+      path.join(dir, "better-axios.config.json"),
+      JSON.stringify({ profiles: { only: { baseURL: "https://only.test" } } }),
+    );
+    mock.onGet("https://only.test/status").reply(200, {});
+
+    await methodCommands()
+      .find((command) => command.name() === "get")!
+      .parseAsync(["/status", "--no-prompt"], { from: "user" });
+
+    expect(log).toHaveBeenCalledWith("GET https://only.test/status");
+    cwd.mockRestore();
+    log.mockRestore();
+  });
+});
+
+describe("node entry point", () => {
+  it("should keep config file loading out of the main entry", () => {
+    jest.isolateModules(() => {
+      jest.doMock("../src/node", () => {
+        throw new Error("the node entry was loaded");
+      });
+      const main = require("../src/index");
+      expect(main.defineConfig).toBeDefined();
+      expect(main.loadConfigFile).toBeUndefined();
+    });
+    jest.dontMock("../src/node");
+  });
+
+  it("should point AxiosApi.fromConfigFile at the node entry until it is loaded", async () => {
+    let Isolated!: typeof AxiosApi;
+    jest.isolateModules(() => {
+      Isolated = require("../src/wrapper").AxiosApi;
+    });
+
+    await expect(Isolated.fromConfigFile()).rejects.toThrow(
+      'import "better-axios/node" to enable it',
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { AxiosApi } from "../src/wrapper";
+import { ValidationError } from "../src/errors";
+import {
+  createClient,
+  defineApi,
+  interpolatePath,
+  typed,
+} from "../src/contract";
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const pageQuery = {
+  safeParse(data: any) {
+    return typeof data?.page === "number"
+      ? { success: true as const, data: data as { page: number } }
+      : {
+          success: false as const,
+          error: { issues: [{ path: ["page"], message: "Expected number" }] },
+        };
+  },
+};
+
+const contract = defineApi({
+  listUsers: {
+    method: "GET",
+    path: "/users",
+    query: pageQuery,
+    response: typed<User[]>(),
+  },
+  getUser: {
+    method: "GET",
+    path: "/users/:id",
+    response: typed<User>(),
+  },
+  getPost: {
+    method: "GET",
+    path: "/users/:userId/posts/:postId",
+  },
+  createUser: {
+    method: "POST",
+    path: "/users",
+    body: typed<{ name: string }>(),
+    response: typed<User>(),
+  },
+  health: {
+    method: "GET",
+    path: "/health",
+    useAuth: false,
+    timeout: 1000,
+  },
+});
+
+describe("Typed API contracts", () => {
+  let mock: MockAdapter;
+  let api: AxiosApi;
+  let client: ReturnType<typeof createClient<typeof contract>>;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    api = new AxiosApi({ baseURL: "https://example.com" });
+    client = createClient(api, contract);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("should interpolate and encode path params", async () => {
+    mock.onGet("/users/a%2Fb").reply(200, { id: 1, name: "Ada" });
+    mock.onGet("/users/1/posts/2").reply(200, { title: "Hello" });
+
+    const user = await client.getUser({ params: { id: "a/b" } });
+    const post = await client.getPost({ params: { userId: 1, postId: 2 } });
+
+    const name: string = user.data.name;
+    expect(name).toBe("Ada");
+    expect(post.data.title).toBe("Hello");
+  });
+
+  it("should send query params and bodies", async () => {
+    mock.onGet("/users").reply(200, [{ id: 1, name: "Ada" }]);
+    mock.onPost("/users").reply(201, { id: 2, name: "Grace" });
+
+    const list = await client.listUsers({ query: { page: 2 } });
+    const created = await client.createUser({ body: { name: "Grace" } });
+
+    expect(list.data[0].id).toBe(1);
+    expect(mock.history.get[0].params).toEqual({ page: 2 });
+    expect(created.statusCode).toBe(201);
+    expect(JSON.parse(mock.history.post[0].data)).toEqual({ name: "Grace" });
+  });
+
+  it("should validate query params with schemas", async () => {
+    const error = await client
+      .listUsers({ query: { page: "2" as any } })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues[0].path).toEqual(["page"]);
+    expect(mock.history.get.length).toBe(0);
+  });
+
+  it("should apply per-endpoint defaults and per-call config", async () => {
+    api.setAuthToken("secret");
+    mock.onGet("/health").reply(200, { ok: true });
+    const handler = jest.fn();
+
+    await client.health();
+    await client.health({ config: { customSuccessHandler: handler } });
+
+    expect(mock.history.get[0].headers?.Authorization).toBeUndefined();
+    expect(mock.history.get[0].timeout).toBe(1000);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should enforce argument types at compile time", () => {
+    // These calls are never executed; they only need to type-check
+    const typeChecks = () => {
+      // @ts-expect-error path params are required
+      client.getUser();
+      // @ts-expect-error unknown path param
+      client.getUser({ params: { userId: 1 } });
+      // @ts-expect-error body must match the declared type
+      client.createUser({ body: { name: 1 } });
+      // @ts-expect-error query must match the declared schema
+      client.listUsers({ query: { page: "1" } });
+    };
+    expect(typeof typeChecks).toBe("function");
+  });
+
+  it("should report missing path params at runtime", () => {
+    expect(() => interpolatePath("/users/:id", {})).toThrow(
+      'Missing path parameter "id" for /users/:id',
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { AxiosApi, ApiError } from "../src/wrapper";
+import { bearerAuth } from "../src/auth";
+import { CancelledError } from "../src/errors";
+
+describe("AxiosApi request deduplication", () => {
+  let mock: MockAdapter;
+  let api: AxiosApi;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios, { delayResponse: 20 });
+    mock.onGet("/me").reply(200, { name: "Ada", roles: ["admin"] });
+    api = new AxiosApi({ baseURL: "https://example.com", dedupe: true });
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("should coalesce identical concurrent GETs into one call", async () => {
+    const [a, b, c] = await Promise.all([
+      api.get("/me"),
+      api.get("/me"),
+      api.get("/me"),
+    ]);
+
+    expect(mock.history.get.length).toBe(1);
+    expect(a.data).toEqual({ name: "Ada", roles: ["admin"] });
+    expect(b).toEqual(a);
+    expect(c).toEqual(a);
+  });
+
+  it("should give each caller its own copy of the response", async () => {
+    const [a, b] = await Promise.all([api.get("/me"), api.get("/me")]);
+
+    a.data.roles.push("owner");
+    expect(b.data.roles).toEqual(["admin"]);
+    expect(a).not.toBe(b);
+  });
+
+  it("should run each caller's own handlers", async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+
+    await Promise.all([
+      api.get("/me", { customSuccessHandler: first }),
+      api.get("/me", { customSuccessHandler: second }),
+    ]);
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share failures with every caller", async () => {
+    mock.onGet("/broken").reply(500, { message: "Server error" });
+    const errorHandler = jest.fn();
+
+    const results = await Promise.allSettled([
+      api.get("/broken", { customErrorHandler: errorHandler }),
+      api.get("/broken", { customErrorHandler: errorHandler }),
+    ]);
+
+    expect(mock.history.get.length).toBe(1);
+    for (const result of results) {
+      expect(result.status).toBe("rejected");
+      const error = (result as PromiseRejectedResult).reason as ApiError;
+      expect(error.statusCode).toBe(500);
+      expect(error.attempts).toBe(1);
+    }
+    expect(errorHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not share requests with different params or auth", async () => {
+    mock.onGet("/items").reply(200, []);
+
+    await Promise.all([
+      api.get("/items", { params: { page: 1 } }),
+      api.get("/items", { params: { page: 2 } }),
+      api.get("/items", { params: { page: 1 }, useAuth: false }),
+      api.get("/items", {
+        params: { page: 1 },
+        authStrategy: bearerAuth({ prefix: "JWT " }),
+      }),
+    ]);
+    expect(mock.history.get.length).toBe(4);
+
+    api.setAuthToken("user-a");
+    const asUserA = api.get("/items");
+    await new Promise((r) => setTimeout(r, 5));
+    api.setAuthToken("user-b");
+    const asUserB = api.get("/items");
+    await Promise.all([asUserA, asUserB]);
+    expect(mock.history.get.length).toBe(6);
+  });
+
+  it("should keep the shared request going while any caller waits", async () => {
+    const group = api.createAbortGroup();
+    const first = api.get("/me", { abortGroup: group });
+    const second = api.get("/me");
+    group.cancel();
+
+    await expect(first).rejects.toBeInstanceOf(CancelledError);
+    await expect(second).resolves.toMatchObject({ data: { name: "Ada" } });
+    expect(mock.history.get.length).toBe(1);
+  });
+
+  it("should abort the shared request once every caller has cancelled", async () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const requests = [
+      api.get("/me", { signal: first.signal }),
+      api.get("/me", { signal: second.signal }),
+    ];
+    await new Promise((r) => setTimeout(r, 5));
+    first.abort();
+    expect(mock.history.get[0].signal?.aborted).toBe(false);
+    second.abort();
+
+    for (const request of requests) {
+      await expect(request).rejects.toBeInstanceOf(CancelledError);
+    }
+    expect(mock.history.get[0].signal?.aborted).toBe(true);
+
+    // The next caller starts a fresh request
+    await expect(api.get("/me")).resolves.toMatchObject({
+      data: { name: "Ada" },
+    });
+    expect(mock.history.get.length).toBe(2);
+  });
+
+  it("should send a new request once the previous one has settled", async () => {
+    await api.get("/me");
+    await api.get("/me");
+    expect(mock.history.get.length).toBe(2);
+  });
+
+  it("should support opting out per request or globally", async () => {
+    await Promise.all([api.get("/me"), api.get("/me", { dedupe: false })]);
+    expect(mock.history.get.length).toBe(2);
+
+    const plain = new AxiosApi({ baseURL: "https://example.com" });
+    await Promise.all([plain.get("/me"), plain.get("/me")]);
+    expect(mock.history.get.length).toBe(4);
+
+    await Promise.all([
+      plain.get("/me", { dedupe: true }),
+      plain.get("/me", { dedupe: true }),
+    ]);
+    expect(mock.history.get.length).toBe(5);
+  });
+});
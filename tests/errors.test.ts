@@ -0,0 +1,165 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { AxiosApi } from "../src/wrapper";
+import {
+  ApiError,
+  AuthError,
+  CancelledError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+  isApiError,
+  isAuthError,
+  isCancelledError,
+  isHttpError,
+  isNetworkError,
+  isTimeoutError,
+  isValidationError,
+} from "../src/errors";
+import { TokenExpiredError } from "../src/jwt";
+
+describe("ApiError hierarchy", () => {
+  let mock: MockAdapter;
+  let api: AxiosApi;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    api = new AxiosApi({ baseURL: "https://example.com" });
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  const capture = (request: Promise<unknown>) =>
+    request.then(
+      () => {
+        throw new Error("Expected the request to fail");
+      },
+      (error) => error,
+    );
+
+  it("should throw HttpError with request and response details", async () => {
+    mock
+      .onPost("/orders")
+      .reply(
+        409,
+        { message: "Duplicate order", id: 7 },
+        { "x-request-id": "r1" },
+      );
+
+    const error = await capture(api.post("/orders", { sku: "A" }));
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({
+      name: "HttpError",
+      message: "Duplicate order",
+      statusCode: 409,
+      code: "HTTP_ERROR",
+      method: "POST",
+      url: "/orders",
+      data: { message: "Duplicate order", id: 7 },
+      attempts: 1,
+    });
+    expect(error.headers["x-request-id"]).toBe("r1");
+    expect(error.stack).toContain("HttpError");
+    expect(axios.isAxiosError(error.originalError)).toBe(true);
+  });
+
+  it("should throw AuthError for 401 and 403 responses", async () => {
+    mock.onGet("/me").reply(401, {});
+    mock.onGet("/admin").reply(403, {});
+
+    const unauthorized = await capture(api.get("/me"));
+    const forbidden = await capture(api.get("/admin"));
+
+    expect(unauthorized).toBeInstanceOf(AuthError);
+    expect(unauthorized).toBeInstanceOf(HttpError);
+    expect(unauthorized.code).toBe("UNAUTHORIZED");
+    expect(forbidden.code).toBe("FORBIDDEN");
+  });
+
+  it("should throw NetworkError and TimeoutError without a response", async () => {
+    mock.onGet("/offline").networkError();
+    mock.onGet("/slow").timeout();
+
+    const network = await capture(api.get("/offline"));
+    const timeout = await capture(api.get("/slow"));
+
+    expect(network).toBeInstanceOf(NetworkError);
+    expect(network).toMatchObject({
+      statusCode: 0,
+      code: "NETWORK_ERROR",
+      method: "GET",
+      url: "/offline",
+    });
+    expect(timeout).toBeInstanceOf(TimeoutError);
+    expect(timeout).toBeInstanceOf(NetworkError);
+    expect(timeout.code).toBe("TIMEOUT");
+  });
+
+  it("should throw CancelledError for aborted requests", async () => {
+    mock.onGet("/search").reply(200, {});
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await capture(
+      api.get("/search", { signal: controller.signal }),
+    );
+
+    expect(error).toBeInstanceOf(CancelledError);
+    expect(error).toMatchObject({ code: "CANCELLED", method: "GET" });
+  });
+
+  it("should throw TokenExpiredError without an HTTP status", async () => {
+    api = new AxiosApi({
+      baseURL: "https://example.com",
+      auth: { onTokenExpired: "reject" },
+    });
+    const claims = Buffer.from(JSON.stringify({ exp: 1 })).toString(
+      "base64url",
+    );
+    api.setAuthToken(`header.${claims}.signature`);
+
+    const error = await capture(api.get("/me"));
+
+    expect(error).toBeInstanceOf(TokenExpiredError);
+    expect(isHttpError(error)).toBe(false);
+    expect(error).toMatchObject({
+      code: "TOKEN_EXPIRED",
+      statusCode: 0,
+      url: "/me",
+    });
+  });
+
+  it("should narrow errors with the exported type guards", () => {
+    const errors = [
+      new HttpError("a", { statusCode: 500 }),
+      new AuthError("b", { statusCode: 401 }),
+      new NetworkError("c"),
+      new TimeoutError("d"),
+      new CancelledError("e"),
+      new ValidationError("f", {
+        issues: [{ path: ["id"], message: "Required" }],
+      }),
+      new Error("g"),
+    ];
+
+    const guards = [
+      isApiError,
+      isHttpError,
+      isAuthError,
+      isNetworkError,
+      isTimeoutError,
+      isCancelledError,
+      isValidationError,
+    ];
+    expect(
+      errors.map((e) => guards.filter((guard) => guard(e)).length),
+    ).toEqual([2, 3, 2, 3, 2, 2, 0]);
+    expect((errors[5] as ValidationError).issues[0].path).toEqual(["id"]);
+  });
+});
@@ -0,0 +1,124 @@
+import { AxiosApi } from "../src/wrapper";
+import { CancelledError } from "../src/errors";
+import { MemoryTokenStore } from "../src/tokenStore";
+import { createMockApi } from "../src/testing";
+
+describe("lifecycle events", () => {
+  let api: AxiosApi;
+
+  beforeEach(() => {
+    api = new AxiosApi({
+      baseURL: "https://api.example.com/v1",
+      retry: { maxAttempts: 2, baseDelay: 1, jitter: false },
+    });
+    const mock = createMockApi(api);
+    mock.onGet("/users").reply(200, [{ id: 1, name: "Zoë" }]);
+    mock.onGet("/flaky").replySequence([[503], [200, "ok"]]);
+    mock.onGet("/missing").reply(404, { message: "Not found" });
+  });
+
+  it("emits start and end events with timing, size and status", async () => {
+    const start = jest.fn();
+    const end = jest.fn();
+    api.on("request:start", start);
+    api.on("request:end", end);
+
+    await api.get("/users", { params: { page: 2 } });
+
+    const [startEvent] = start.mock.calls[0];
+    expect(startEvent).toMatchObject({
+      method: "GET",
+      url: "https://api.example.com/v1/users?page=2",
+    });
+    expect(startEvent.requestId).toEqual(expect.any(String));
+    expect(end).toHaveBeenCalledWith({
+      requestId: startEvent.requestId,
+      method: "GET",
+      url: "https://api.example.com/v1/users?page=2",
+      status: 200,
+      duration: expect.any(Number),
+      attempts: 1,
+      size: Buffer.byteLength('[{"id":1,"name":"Zoë"}]'),
+      fromCache: false,
+    });
+  });
+
+  it("emits retry events with the same request id", async () => {
+    const events: any[] = [];
+    api.on("request:start", (event) => events.push(["start", event]));
+    api.on("request:retry", (event) => events.push(["retry", event]));
+    api.on("request:end", (event) => events.push(["end", event]));
+
+    await api.get("/flaky");
+
+    expect(events.map(([name]) => name)).toEqual(["start", "retry", "end"]);
+    expect(events[1][1]).toMatchObject({
+      requestId: events[0][1].requestId,
+      attempt: 1,
+      delay: 1,
+      status: 503,
+    });
+    expect(events[2][1]).toMatchObject({ attempts: 2, status: 200 });
+  });
+
+  it("emits error events, including for cancellations", async () => {
+    const errors: any[] = [];
+    api.on("request:error", (event) => errors.push(event));
+
+    await expect(api.get("/missing")).rejects.toThrow("Not found");
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      api.get("/users", { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(CancelledError);
+
+    expect(errors[0]).toMatchObject({
+      method: "GET",
+      url: "https://api.example.com/v1/missing",
+      status: 404,
+      attempts: 1,
+    });
+    expect(errors[0].error.statusCode).toBe(404);
+    expect(errors[1].error).toBeInstanceOf(CancelledError);
+    expect(errors[1].status).toBeUndefined();
+  });
+
+  it("emits auth changes and supports once and unsubscribing", async () => {
+    const changes: any[] = [];
+    const off = api.on("auth:changed", (event) => changes.push(event));
+    const first = jest.fn();
+    api.once("auth:changed", first);
+
+    await api.setAuthToken("abc");
+    await api.removeAuthToken();
+    off();
+    await api.setAuthToken("def");
+
+    expect(changes).toEqual([
+      { authenticated: true, reason: "set" },
+      { authenticated: false, reason: "removed" },
+    ]);
+    expect(first).toHaveBeenCalledTimes(1);
+
+    const refreshing = new AxiosApi({
+      baseURL: "https://api.example.com",
+      tokenStore: new MemoryTokenStore(),
+      auth: { refresh: async () => "fresh" },
+    });
+    const listener = jest.fn();
+    refreshing.on("auth:changed", listener);
+    await refreshing.refreshAuthToken();
+    expect(listener).toHaveBeenCalledWith({
+      authenticated: true,
+      reason: "refreshed",
+    });
+  });
+
+  it("keeps requests working when a listener throws", async () => {
+    api.on("request:end", () => {
+      throw new Error("listener failed");
+    });
+
+    await expect(api.get("/users")).resolves.toMatchObject({ statusCode: 200 });
+  });
+});
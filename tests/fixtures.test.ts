@@ -0,0 +1,235 @@
+import http from "http";
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { AxiosApi } from "../src/wrapper";
+import { isApiError } from "../src/errors";
+import { apiKeyAuth } from "../src/auth";
+import {
+  FixtureFile,
+  FixtureMismatchError,
+  fromHar,
+  readFixtureFile,
+  toHar,
+  writeFixtureFile,
+} from "../src/fixtures";
+
+describe("fixtures", () => {
+  let dir: string;
+  let server: http.Server;
+  let baseURL: string;
+  let hits: number;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "better-axios-fixtures-"));
+    hits = 0;
+    server = http.createServer((req, res) => {
+      hits++;
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const status = req.url?.startsWith("/missing") ? 404 : 200;
+        res.writeHead(status, {
+          "Content-Type": "application/json",
+          "Set-Cookie": "session=secret",
+        });
+        res.end(
+          JSON.stringify({
+            url: req.url,
+            received: body ? JSON.parse(body) : null,
+            token: "server-token",
+          }),
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as any).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("records requests and replays them without the network", async () => {
+    const file = path.join(dir, "users.json");
+    const redact = { bodyKeys: ["password", "token"], query: ["key"] };
+    const recorder = new AxiosApi({
+      baseURL,
+      fixtures: { mode: "record", path: file, redact },
+    });
+    await recorder.setAuthToken("abc");
+
+    await recorder.get("/users", { params: { page: 2, key: "s3cret" } });
+    await recorder.post("/login", { user: "ada", password: "hunter2" });
+    await expect(
+      recorder.get("/missing", { skipGlobalHandlers: true }),
+    ).rejects.toMatchObject({ statusCode: 404 });
+
+    const fixture = await readFixtureFile(file);
+    expect(fixture.entries).toHaveLength(3);
+    expect(fixture.entries[0].request).toMatchObject({
+      method: "GET",
+      url: `${baseURL}/users`,
+      query: { key: "[REDACTED]", page: "2" },
+      headers: { authorization: "[REDACTED]" },
+    });
+    expect(fixture.entries[1].request.body).toEqual({
+      user: "ada",
+      password: "[REDACTED]",
+    });
+    expect(fixture.entries[1].response).toMatchObject({
+      status: 200,
+      headers: { "set-cookie": "[REDACTED]" },
+      body: { token: "[REDACTED]" },
+    });
+
+    const recordedHits = hits;
+    const replayer = new AxiosApi({
+      baseURL,
+      fixtures: { mode: "replay", path: file, redact },
+    });
+
+    // Query order and redacted values do not affect matching
+    const users = await replayer.get("/users?key=other", {
+      params: { page: 2 },
+    });
+    expect(users.data.url).toBe("/users?page=2&key=s3cret");
+    const login = await replayer.post("/login", {
+      password: "different",
+      user: "ada",
+    });
+    expect(login.data.received).toEqual({
+      user: "ada",
+      password: "[REDACTED]",
+    });
+    await expect(
+      replayer.get("/missing", { skipGlobalHandlers: true }),
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(hits).toBe(recordedHits);
+  });
+
+  it("redacts the client's auth header and query params", async () => {
+    const file = path.join(dir, "auth.json");
+    const session = new AxiosApi({
+      baseURL,
+      authTokenKey: "X-Session",
+      fixtures: {
+        mode: "record",
+        path: file,
+        redact: { headers: ["X-Trace"] },
+      },
+    });
+    await session.setAuthToken("session-token");
+    await session.get("/me", {
+      headers: { "X-Trace": "trace-1", Cookie: "a=b" },
+    });
+
+    const keyed = new AxiosApi({
+      baseURL,
+      authStrategy: apiKeyAuth({ in: "query", name: "sig", key: "k-1" }),
+      fixtures: { mode: "record", path: path.join(dir, "key.json") },
+    });
+    await keyed.get("/items");
+
+    const [entry] = (await readFixtureFile(file)).entries;
+    expect(entry.request.headers).toMatchObject({
+      "x-session": "[REDACTED]",
+      "x-trace": "[REDACTED]",
+      cookie: "[REDACTED]",
+    });
+    const [keyedEntry] = (await readFixtureFile(path.join(dir, "key.json")))
+      .entries;
+    expect(keyedEntry.request.query).toEqual({ sig: "[REDACTED]" });
+    expect(await fs.readFile(file, "utf8")).not.toContain("session-token");
+  });
+
+  it("fails unmatched replays with a diff against the nearest entry", async () => {
+    const file = path.join(dir, "fixture.json");
+    await writeFixtureFile(file, {
+      version: 1,
+      entries: [
+        {
+          request: {
+            method: "POST",
+            url: "https://api.example.com/users",
+            query: { page: "1" },
+            headers: {},
+            body: { name: "Ada", role: "admin" },
+          },
+          response: { status: 201, headers: {}, body: { id: 1 } },
+          recordedAt: "2024-01-01T00:00:00.000Z",
+          time: 12,
+        },
+        {
+          request: {
+            method: "GET",
+            url: "https://api.example.com/users",
+            query: {},
+            headers: {},
+          },
+          response: { status: 200, headers: {}, body: [] },
+          recordedAt: "2024-01-01T00:00:00.000Z",
+          time: 8,
+        },
+      ],
+    });
+    const api = new AxiosApi({
+      baseURL: "https://api.example.com",
+      fixtures: { mode: "replay", path: file },
+    });
+
+    const error = await api
+      .post("/users", { name: "Grace", role: "admin" }, { params: { page: 2 } })
+      .catch((e) => e);
+
+    expect(isApiError(error)).toBe(true);
+    expect(error.originalError).toBeInstanceOf(FixtureMismatchError);
+    expect(error.message).toBe(
+      [
+        `No recorded fixture in ${file} matches POST https://api.example.com/users`,
+        "Nearest recorded entry (POST https://api.example.com/users) differs in:",
+        `  query.page: recorded "1", got "2"`,
+        `  body.name: recorded "Ada", got "Grace"`,
+      ].join("\n"),
+    );
+  });
+
+  it("converts fixtures to and from HAR 1.2", async () => {
+    const fixture: FixtureFile = {
+      version: 1,
+      entries: [
+        {
+          request: {
+            method: "GET",
+            url: "https://api.example.com/search",
+            query: { q: "ada", tag: ["a", "b"] },
+            headers: { accept: "application/json" },
+          },
+          response: {
+            status: 200,
+            statusText: "OK",
+            headers: { "content-type": "application/json" },
+            body: { results: [1, 2] },
+          },
+          recordedAt: "2024-01-01T00:00:00.000Z",
+          time: 42,
+        },
+      ],
+    };
+
+    const har = toHar(fixture);
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.entries[0].request.url).toBe(
+      "https://api.example.com/search?q=ada&tag=a&tag=b",
+    );
+    expect(har.log.entries[0].response.content.text).toBe('{"results":[1,2]}');
+    expect(fromHar(har)).toEqual(fixture);
+
+    // Files ending in .har are written as HAR and read back as fixtures
+    const file = path.join(dir, "session.har");
+    await writeFixtureFile(file, fixture);
+    expect(JSON.parse(await fs.readFile(file, "utf8")).log).toBeDefined();
+    expect(await readFixtureFile(file)).toEqual(fixture);
+  });
+});
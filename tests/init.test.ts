@@ -0,0 +1,178 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import MockAdapter from "axios-mock-adapter";
+import { initCommand } from "../src/commands/init";
+import { detectProject, scaffoldFiles } from "../src/scaffold";
+
+describe("init command", () => {
+  let dir: string;
+  let output: string[];
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "better-axios-init-"));
+    output = [];
+    jest.spyOn(console, "log").mockImplementation((line) => output.push(line));
+    jest.spyOn(console, "warn").mockImplementation((line) => output.push(line));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const init = (...args: string[]) =>
+    initCommand().parseAsync(
+      [
+        "--yes",
+        "--dir",
+        dir,
+        "--import-path",
+        path.resolve(__dirname, "../src"),
+        ...args,
+      ],
+      { from: "user" },
+    );
+
+  it("should generate a working client, endpoints and test", async () => {
+    await init(
+      "--framework",
+      "node",
+      "--auth",
+      "apiKey",
+      "--env",
+      "local=https://local.example.com",
+    );
+
+    expect((await fs.readdir(dir)).sort()).toEqual([
+      "client.ts",
+      "users.test.ts",
+      "users.ts",
+    ]);
+    const test = await fs.readFile(path.join(dir, "users.test.ts"), "utf8");
+    expect(test).toContain("new MockAdapter(api.getAxiosInstance())");
+
+    const { api, baseURL } = await import(path.join(dir, "client.ts"));
+    const { users } = await import(path.join(dir, "users.ts"));
+    expect(baseURL).toBe("https://local.example.com");
+
+    const mock = new MockAdapter(api.getAxiosInstance());
+    mock.onGet("/users/1").reply(200, { id: 1, name: "Ada" });
+    await api.setAuthToken("key-1");
+
+    const response = await users.getUser({ params: { id: 1 } });
+
+    expect(response.data).toEqual({ id: 1, name: "Ada" });
+    expect(mock.history.get[0].headers?.["X-API-Key"]).toBe("key-1");
+  });
+
+  it("should point at .api-token for the .gitignore", async () => {
+    await init("--framework", "node", "--auth", "bearer");
+
+    const client = await fs.readFile(path.join(dir, "client.ts"), "utf8");
+    expect(client).toContain('new FileTokenStore(".api-token")');
+    expect(output.join("\n")).toContain(".api-token, add it to your");
+  });
+
+  it("should not overwrite existing files without --force", async () => {
+    const client = path.join(dir, "client.ts");
+    await fs.writeFile(client, "// keep me");
+
+    await init();
+
+    expect(await fs.readFile(client, "utf8")).toBe("// keep me");
+    expect(output).toContain(`⚠ Skipped ${client}, it already exists`);
+    expect(await fs.readFile(path.join(dir, "users.ts"), "utf8")).toContain(
+      "defineApi",
+    );
+
+    await init("--force");
+    expect(await fs.readFile(client, "utf8")).toContain("new AxiosApi");
+  });
+
+  it("should reject unknown answers", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    await init("--auth", "kerberos");
+
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining('Unknown auth scheme "kerberos"'),
+    );
+    expect(process.exitCode).toBe(1);
+    process.exitCode = undefined;
+  });
+});
+
+describe("scaffoldFiles", () => {
+  it("should use the framework's env variables and the project's test setup", () => {
+    const files = scaffoldFiles({
+      framework: "react",
+      auth: "bearer",
+      environments: { staging: "https://staging.example.com" },
+      errorHandling: "toast",
+      testRunner: "vitest",
+      mocking: "msw",
+    });
+    const [client, , test] = files.map((file) => file.content);
+
+    expect(client).toContain("import.meta.env.VITE_API_BASE_URL");
+    expect(client).toContain("tokenStore: new WebStorageTokenStore(),");
+    expect(client).toContain("showErrorToast(error.message)");
+    expect(client).toContain('from "@parthkapoor-dev/better-axios"');
+    expect(test).toContain('from "vitest"');
+    expect(test).toContain('import { setupServer } from "msw/node";');
+  });
+
+  it("should keep API keys and passwords out of browser clients", () => {
+    for (const framework of ["react", "next"] as const) {
+      for (const auth of ["apiKey", "basic", "oauth2"] as const) {
+        const [client] = scaffoldFiles({
+          framework,
+          auth,
+          environments: { production: "https://api.example.com" },
+          errorHandling: "none",
+        });
+        expect(client.content).not.toMatch(/API_KEY|PASSWORD|SECRET/);
+      }
+    }
+
+    const [node] = scaffoldFiles({
+      framework: "node",
+      auth: "basic",
+      environments: { production: "https://api.example.com" },
+      errorHandling: "none",
+    });
+    expect(node.content).toContain("password: process.env.API_PASSWORD");
+  });
+
+  it("should wire browser OAuth2 clients to a token from the server", () => {
+    const [client] = scaffoldFiles({
+      framework: "next",
+      auth: "oauth2",
+      environments: { production: "https://api.example.com" },
+      errorHandling: "none",
+    });
+
+    expect(client.content).not.toContain("OAuth2Auth");
+    expect(client.content).toContain("token exchange on your server");
+    expect(client.content).toContain("new WebStorageTokenStore()");
+  });
+
+  it("should detect the framework, test runner and mocking library", () => {
+    expect(
+      detectProject({
+        dependencies: { next: "14.0.0", react: "18.0.0" },
+        devDependencies: { vitest: "1.0.0" },
+      }),
+    ).toEqual({
+      framework: "next",
+      testRunner: "vitest",
+      mocking: "axios-mock-adapter",
+    });
+    expect(detectProject({})).toEqual({
+      framework: "node",
+      testRunner: "jest",
+      mocking: "axios-mock-adapter",
+    });
+  });
+});
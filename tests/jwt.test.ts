@@ -0,0 +1,113 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { AxiosApi, ApiError } from "../src/wrapper";
+import { decodeJwt, isJwtExpired } from "../src/jwt";
+
+function makeJwt(claims: Record<string, any>): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}.signature`;
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+describe("JWT helpers", () => {
+  it("should decode JWT claims without verifying the signature", () => {
+    const token = makeJwt({ sub: "user-1", name: "Jürgen", exp: 1700000000 });
+    expect(decodeJwt(token)).toEqual({
+      sub: "user-1",
+      name: "Jürgen",
+      exp: 1700000000,
+    });
+  });
+
+  it("should return null for tokens that are not JWTs", () => {
+    expect(decodeJwt("opaque-token")).toBeNull();
+    expect(decodeJwt("a.b.c")).toBeNull();
+  });
+
+  it("should detect expiry within the skew window", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    const exp = now / 1000 + 20;
+    expect(isJwtExpired({ exp }, 0, now)).toBe(false);
+    expect(isJwtExpired({ exp }, 30, now)).toBe(true);
+    expect(isJwtExpired({ sub: "no-exp" }, 30, now)).toBe(false);
+    expect(isJwtExpired(null, 30, now)).toBe(false);
+  });
+});
+
+describe("AxiosApi JWT awareness", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock
+      .onGet("/me")
+      .reply((config) => [
+        200,
+        { authorization: config.headers?.Authorization },
+      ]);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("should expose claims and expiry of the current token", async () => {
+    const api = new AxiosApi({ baseURL: "https://example.com" });
+    expect(api.getAuthClaims()).toBeNull();
+    expect(api.isAuthTokenExpired()).toBe(false);
+
+    await api.setAuthToken(makeJwt({ sub: "user-1", exp: nowSeconds() + 10 }));
+    expect(api.getAuthClaims()?.sub).toBe("user-1");
+    expect(api.isAuthTokenExpired()).toBe(true);
+    expect(api.isAuthTokenExpired(0)).toBe(false);
+  });
+
+  it("should send expired tokens when onTokenExpired is not set", async () => {
+    const api = new AxiosApi({ baseURL: "https://example.com" });
+    await api.setAuthToken(makeJwt({ exp: nowSeconds() - 60 }));
+
+    await expect(api.get("/me")).resolves.toMatchObject({ statusCode: 200 });
+  });
+
+  it("should reject with a token expired error before sending", async () => {
+    const globalErrorHandler = jest.fn();
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      globalErrorHandler,
+      auth: { onTokenExpired: "reject" },
+    });
+    await api.setAuthToken(makeJwt({ exp: nowSeconds() - 60 }));
+
+    try {
+      await api.get("/me");
+      fail("Expected the request to be rejected");
+    } catch (error) {
+      expect((error as ApiError).code).toBe("TOKEN_EXPIRED");
+      expect((error as ApiError).statusCode).toBe(0);
+    }
+    expect(mock.history.get.length).toBe(0);
+    expect(globalErrorHandler).toHaveBeenCalledTimes(1);
+
+    // Public requests are unaffected
+    await expect(api.get("/me", { useAuth: false })).resolves.toBeDefined();
+  });
+
+  it("should refresh proactively when the token is about to expire", async () => {
+    const freshToken = makeJwt({ exp: nowSeconds() + 3600 });
+    const refresh = jest.fn().mockResolvedValue(freshToken);
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      auth: { refresh, onTokenExpired: "refresh", expirySkew: 60 },
+    });
+    await api.setAuthToken(makeJwt({ exp: nowSeconds() + 30 }));
+
+    const [a, b] = await Promise.all([api.get("/me"), api.get("/me")]);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(a.data.authorization).toBe(`Bearer ${freshToken}`);
+    expect(b.data.authorization).toBe(`Bearer ${freshToken}`);
+    expect(mock.history.get.length).toBe(2);
+  });
+});
@@ -0,0 +1,211 @@
+import { AxiosApi } from "../src/wrapper";
+import { apiKeyAuth, basicAuth } from "../src/auth";
+import { createMockApi, MockApi } from "../src/testing";
+import type { Logger, LoggerConfig } from "../src/logger";
+
+function createLogger() {
+  const entries: { level: string; message: string; data: any }[] = [];
+  const log =
+    (level: string) =>
+    (message: string, data: any): void => {
+      entries.push({ level, message, data });
+    };
+  const logger: Logger = {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+  return { logger, entries };
+}
+
+describe("request logger", () => {
+  let entries: { level: string; message: string; data: any }[];
+  let api: AxiosApi;
+  let mock: MockApi;
+
+  const setup = (config: Partial<LoggerConfig> = {}) => {
+    const created = createLogger();
+    entries = created.entries;
+    api = new AxiosApi({
+      baseURL: "https://api.example.com",
+      retry: { maxAttempts: 2, baseDelay: 1, jitter: false },
+      logger: { logger: created.logger, ...config },
+    });
+    mock = createMockApi(api);
+    mock.onPost("/login").reply(200, { token: "secret-token", user: "ada" });
+    mock.onGet("/flaky").replySequence([[503], [200, "ok"]]);
+    mock.onGet("/missing").reply(404, { message: "Not found" });
+  };
+
+  beforeEach(() => setup());
+
+  it("logs requests and responses with secrets redacted", async () => {
+    await api.setAuthToken("abc");
+    await api.post(
+      "/login",
+      { user: "ada", password: "hunter2" },
+      { params: { access_token: "xyz", page: 1 }, headers: { Cookie: "a=b" } },
+    );
+
+    const [request, curl, response] = entries;
+    expect(request).toMatchObject({
+      level: "debug",
+      message:
+        "→ POST https://api.example.com/login?access_token=%5BREDACTED%5D&page=1",
+      data: {
+        method: "POST",
+        headers: { Authorization: "[REDACTED]", Cookie: "[REDACTED]" },
+        body: '{"user":"ada","password":"[REDACTED]"}',
+      },
+    });
+    expect(request.data.requestId).toEqual(expect.any(String));
+    expect(curl.message).toBe(
+      "curl -X POST 'https://api.example.com/login?access_token=%5BREDACTED%5D&page=1'" +
+        " -H 'Accept: application/json, text/plain, */*'" +
+        " -H 'Cookie: [REDACTED]' -H 'Authorization: [REDACTED]'" +
+        " -H 'Content-Type: application/json'" +
+        ` --data-raw '{"user":"ada","password":"[REDACTED]"}'`,
+    );
+    expect(response).toMatchObject({
+      level: "info",
+      data: {
+        requestId: request.data.requestId,
+        status: 200,
+        duration: expect.any(Number),
+        body: '{"token":"[REDACTED]","user":"ada"}',
+      },
+    });
+    expect(JSON.stringify(entries)).not.toMatch(/abc|hunter2|xyz|secret-token/);
+  });
+
+  it("logs retries and errors", async () => {
+    await api.get("/flaky");
+    await expect(api.get("/missing")).rejects.toThrow("Not found");
+
+    const levels = entries
+      .filter((entry) => entry.level !== "debug")
+      .map((entry) => [entry.level, entry.message]);
+    expect(levels).toEqual([
+      [
+        "warn",
+        "↻ GET https://api.example.com/flaky attempt 1 failed, retrying in 1ms",
+      ],
+      ["info", expect.stringMatching(/^← 200 GET .*\/flaky \(\d+ms\)$/)],
+      ["error", "✖ GET https://api.example.com/missing failed: Not found"],
+    ]);
+    expect(entries[entries.length - 1].data).toMatchObject({
+      status: 404,
+      code: "HTTP_ERROR",
+      attempts: 1,
+      body: '{"message":"Not found"}',
+    });
+  });
+
+  it("applies levels, body limits, redaction paths and pino argument order", async () => {
+    const calls: any[][] = [];
+    const pino = {
+      debug: (...args: any[]) => calls.push(["debug", ...args]),
+      info: (...args: any[]) => calls.push(["info", ...args]),
+      warn: (...args: any[]) => calls.push(["warn", ...args]),
+      error: (...args: any[]) => calls.push(["error", ...args]),
+    };
+    api = new AxiosApi({
+      baseURL: "https://api.example.com",
+      logger: {
+        logger: pino,
+        format: "pino",
+        levels: { request: "info", response: "silent" },
+        curl: false,
+        bodyPreview: 50,
+        redactPaths: ["profile.*.pin"],
+        redactDefaultPaths: false,
+      },
+    });
+    createMockApi(api).onPost("/profile").reply(200, "ok");
+
+    await api.post("/profile", {
+      profile: { card: { pin: "1234" } },
+      password: "visible",
+    });
+
+    expect(calls).toEqual([
+      [
+        "info",
+        expect.objectContaining({
+          body: '{"profile":{"card":{"pin":"[REDACTED]"}},"password… (12 more characters)',
+        }),
+        "→ POST https://api.example.com/profile",
+      ],
+    ]);
+  });
+
+  it("adds custom redaction paths to the defaults", async () => {
+    setup({ redactPaths: ["pin"], curl: false });
+
+    await api.post("/login", { pin: "1234", password: "hunter2" });
+
+    expect(entries[0].data.body).toBe(
+      '{"pin":"[REDACTED]","password":"[REDACTED]"}',
+    );
+  });
+
+  it("redacts Authorization with a custom authTokenKey", async () => {
+    const { logger, entries } = createLogger();
+    const basic = new AxiosApi({
+      baseURL: "https://api.example.com",
+      authTokenKey: "X-Session",
+      authStrategy: basicAuth({ username: "u", password: "p" }),
+      logger,
+    });
+    createMockApi(basic).onGet("/me").reply(200, {});
+
+    await basic.get("/me");
+
+    expect(entries[0].data.headers.Authorization).toBe("[REDACTED]");
+    expect(JSON.stringify(entries)).not.toContain("dTpw");
+  });
+
+  it("redacts the query param and header of API key strategies", async () => {
+    const { logger, entries } = createLogger();
+    const keyed = new AxiosApi({
+      baseURL: "https://api.example.com",
+      authStrategy: apiKeyAuth({ in: "query", name: "key", key: "SECRET123" }),
+      logger,
+    });
+    createMockApi(keyed).onGet("/*").reply(200, {});
+
+    await keyed.get("/items");
+    await keyed.get("/other", {
+      authStrategy: apiKeyAuth({ in: "header", name: "X-Token", key: "TOK9" }),
+    });
+
+    expect(entries[0].message).toBe(
+      "→ GET https://api.example.com/items?key=%5BREDACTED%5D",
+    );
+    const [, other] = entries.filter((entry) =>
+      entry.message.startsWith("→ GET"),
+    );
+    expect(other.data.headers["X-Token"]).toBe("[REDACTED]");
+    expect(JSON.stringify(entries)).not.toMatch(/SECRET123|TOK9/);
+  });
+
+  it("never lets a failing logger break requests", async () => {
+    api = new AxiosApi({
+      baseURL: "https://api.example.com",
+      logger: {
+        debug: () => {
+          throw new Error("disk full");
+        },
+        info: () => {
+          throw new Error("disk full");
+        },
+        warn: () => undefined,
+        error: () => undefined,
+      },
+    });
+    createMockApi(api).onGet("/users").reply(200, []);
+
+    await expect(api.get("/users")).resolves.toMatchObject({ statusCode: 200 });
+  });
+});
@@ -0,0 +1,243 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { AxiosApi } from "../src/wrapper";
+import { OAuth2Auth, OAuth2Error } from "../src/oauth2";
+
+interface TokenRequest {
+  params: URLSearchParams;
+  authorization?: string;
+}
+
+// Minimal OAuth2 token server with a protected resource endpoint
+function startStubServer(expiresIn: number | string = 3600) {
+  const tokenRequests: TokenRequest[] = [];
+  let issued = 0;
+  let validToken = "";
+  let refreshTokensRevoked = false;
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      res.setHeader("Content-Type", "application/json");
+
+      if (req.url === "/oauth/token") {
+        const params = new URLSearchParams(body);
+        tokenRequests.push({
+          params,
+          authorization: req.headers.authorization,
+        });
+
+        if (params.get("client_secret") === "wrong") {
+          res.statusCode = 401;
+          res.end(
+            JSON.stringify({
+              error: "invalid_client",
+              error_description: "Client authentication failed",
+            }),
+          );
+          return;
+        }
+        if (
+          params.get("grant_type") === "refresh_token" &&
+          (refreshTokensRevoked ||
+            params.get("refresh_token")?.startsWith("revoked"))
+        ) {
+          res.statusCode = 400;
+          res.end(
+            JSON.stringify({
+              error: "invalid_grant",
+              error_description: "Refresh token expired",
+            }),
+          );
+          return;
+        }
+
+        validToken = `access-${++issued}`;
+        res.end(
+          JSON.stringify({
+            access_token: validToken,
+            token_type: "Bearer",
+            expires_in: expiresIn,
+            refresh_token: `refresh-${issued}`,
+            scope: params.get("scope") ?? undefined,
+          }),
+        );
+        return;
+      }
+
+      if (req.headers.authorization !== `Bearer ${validToken}`) {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ message: "Invalid token" }));
+        return;
+      }
+      res.end(JSON.stringify({ ok: true }));
+    });
+  });
+
+  return new Promise<{
+    url: string;
+    tokenRequests: TokenRequest[];
+    revoke: () => void;
+    revokeRefreshTokens: () => void;
+    close: () => Promise<void>;
+  }>((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        tokenRequests,
+        revoke: () => (validToken = "revoked"),
+        revokeRefreshTokens: () => (refreshTokensRevoked = true),
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+describe("OAuth2Auth", () => {
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  it("should fetch and cache a client_credentials token", async () => {
+    stub = await startStubServer();
+    const oauth = new OAuth2Auth({
+      tokenUrl: `${stub.url}/oauth/token`,
+      clientId: "client",
+      clientSecret: "secret",
+      scopes: ["read", "write"],
+    });
+
+    expect(await oauth.getAccessToken()).toBe("access-1");
+    expect(await oauth.getAccessToken()).toBe("access-1");
+
+    expect(stub.tokenRequests.length).toBe(1);
+    const { params } = stub.tokenRequests[0];
+    expect(params.get("grant_type")).toBe("client_credentials");
+    expect(params.get("client_id")).toBe("client");
+    expect(params.get("client_secret")).toBe("secret");
+    expect(params.get("scope")).toBe("read write");
+    expect(oauth.getToken()?.scope).toBe("read write");
+  });
+
+  it("should renew the token once it is about to expire", async () => {
+    stub = await startStubServer(10);
+    const oauth = new OAuth2Auth({
+      tokenUrl: `${stub.url}/oauth/token`,
+      clientId: "client",
+      expirySkew: 30,
+    });
+
+    expect(await oauth.getAccessToken()).toBe("access-1");
+    expect(await oauth.getAccessToken()).toBe("access-2");
+    expect(stub.tokenRequests[1].params.get("grant_type")).toBe(
+      "refresh_token",
+    );
+    expect(stub.tokenRequests[1].params.get("refresh_token")).toBe("refresh-1");
+  });
+
+  it("should read expires_in sent as a string", async () => {
+    stub = await startStubServer("3600");
+    const oauth = new OAuth2Auth({
+      tokenUrl: `${stub.url}/oauth/token`,
+      clientId: "client",
+    });
+
+    const before = Date.now();
+    await oauth.getAccessToken();
+
+    expect(oauth.getToken()?.expiresAt).toBeGreaterThanOrEqual(
+      before + 3600 * 1000,
+    );
+  });
+
+  it("should fall back to client_credentials when the refresh token is rejected", async () => {
+    stub = await startStubServer(10);
+    const oauth = new OAuth2Auth({
+      tokenUrl: `${stub.url}/oauth/token`,
+      clientId: "client",
+      refreshToken: "revoked-initial",
+      expirySkew: 30,
+    });
+
+    expect(await oauth.getAccessToken()).toBe("access-1");
+    stub.revokeRefreshTokens();
+    expect(await oauth.getAccessToken()).toBe("access-2");
+    expect(await oauth.getAccessToken()).toBe("access-3");
+
+    expect(
+      stub.tokenRequests.map(({ params }) => params.get("grant_type")),
+    ).toEqual([
+      "refresh_token",
+      "client_credentials",
+      "refresh_token",
+      "client_credentials",
+      "refresh_token",
+      "client_credentials",
+    ]);
+  });
+
+  it("should use the refresh_token grant with basic client authentication", async () => {
+    stub = await startStubServer();
+    const oauth = new OAuth2Auth({
+      tokenUrl: `${stub.url}/oauth/token`,
+      clientId: "client",
+      clientSecret: "secret",
+      grantType: "refresh_token",
+      refreshToken: "initial-refresh",
+      clientAuthentication: "basic",
+    });
+
+    await oauth.getAccessToken();
+
+    const { params, authorization } = stub.tokenRequests[0];
+    expect(params.get("grant_type")).toBe("refresh_token");
+    expect(params.get("refresh_token")).toBe("initial-refresh");
+    expect(params.has("client_secret")).toBe(false);
+    expect(authorization).toBe(
+      `Basic ${Buffer.from("client:secret").toString("base64")}`,
+    );
+  });
+
+  it("should surface token endpoint errors", async () => {
+    stub = await startStubServer();
+    const oauth = new OAuth2Auth({
+      tokenUrl: `${stub.url}/oauth/token`,
+      clientId: "client",
+      clientSecret: "wrong",
+    });
+
+    const error = await oauth.getAccessToken().catch((e) => e);
+    expect(error).toBeInstanceOf(OAuth2Error);
+    expect(error.error).toBe("invalid_client");
+    expect(error.statusCode).toBe(401);
+    expect(error.message).toContain("Client authentication failed");
+  });
+
+  it("should authenticate AxiosApi requests and recover from a 401", async () => {
+    stub = await startStubServer();
+    const oauth = new OAuth2Auth({
+      tokenUrl: `${stub.url}/oauth/token`,
+      clientId: "client",
+      clientSecret: "secret",
+    });
+    const api = new AxiosApi({
+      baseURL: stub.url,
+      authStrategy: oauth,
+      auth: { refresh: () => oauth.refresh() },
+    });
+
+    await expect(api.get("/resource")).resolves.toMatchObject({
+      data: { ok: true },
+    });
+
+    stub.revoke();
+    await expect(api.get("/resource")).resolves.toMatchObject({
+      data: { ok: true },
+    });
+    expect(stub.tokenRequests.length).toBe(2);
+  });
+});
@@ -0,0 +1,254 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { generateClient, loadSpec } from "../src/openapi";
+import { generateCommand } from "../src/commands/generate";
+
+const spec = `
+openapi: 3.0.3
+info:
+  title: Pet Store
+  version: 1.0.0
+servers:
+  - url: https://{region}.pets.example.com/v1
+    variables:
+      region:
+        default: eu
+security:
+  - api_key: []
+paths:
+  /pets:
+    get:
+      operationId: list-pets
+      summary: List all pets
+      security: []
+      parameters:
+        - name: limit
+          in: query
+          schema:
+            type: integer
+      responses:
+        "200":
+          description: A list of pets
+          content:
+            application/json:
+              schema:
+                type: array
+                items:
+                  $ref: "#/components/schemas/Pet"
+    post:
+      operationId: createPet
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              $ref: "#/components/schemas/NewPet"
+      responses:
+        "201":
+          description: Created
+          content:
+            application/json:
+              schema:
+                $ref: "#/components/schemas/Pet"
+  /pets/{petId}:
+    parameters:
+      - name: petId
+        in: path
+        required: true
+        schema:
+          type: string
+    get:
+      security:
+        - bearer: []
+      responses:
+        "200":
+          description: A pet
+          content:
+            application/json:
+              schema:
+                $ref: "#/components/schemas/Pet"
+    delete:
+      operationId: deletePet
+      parameters:
+        - name: X-Reason
+          in: header
+          required: true
+      responses:
+        "204":
+          description: Deleted
+    head:
+      responses:
+        "200":
+          description: Exists
+components:
+  securitySchemes:
+    api_key:
+      type: apiKey
+      in: header
+      name: X-Api-Key
+    bearer:
+      type: http
+      scheme: bearer
+  schemas:
+    NewPet:
+      type: object
+      required: [name]
+      properties:
+        name:
+          type: string
+          description: The pet's name
+        tag:
+          type: string
+          nullable: true
+        kind:
+          type: string
+          enum: [cat, dog]
+    Pet:
+      allOf:
+        - $ref: "#/components/schemas/NewPet"
+        - type: object
+          required: [id]
+          properties:
+            id:
+              type: integer
+`;
+
+describe("OpenAPI client generator", () => {
+  let dir: string;
+  let mock: MockAdapter;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "better-axios-openapi-"));
+    mock = new MockAdapter(axios);
+  });
+
+  afterEach(async () => {
+    mock.restore();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const writeSpec = async () => {
+    const specPath = path.join(dir, "openapi.yaml");
+    await fs.writeFile(specPath, spec);
+    return specPath;
+  };
+
+  it("should generate types from component schemas", async () => {
+    const { files } = generateClient(await loadSpec(await writeSpec()));
+    const types = files.find((file) => file.path === "types.ts")!.content;
+
+    expect(files.map((file) => file.path)).toEqual([
+      "types.ts",
+      "client.ts",
+      "index.ts",
+    ]);
+    expect(types).toContain("export interface NewPet {");
+    expect(types).toContain("  /** The pet's name */\n  name: string;");
+    expect(types).toContain("  tag?: string | null;");
+    expect(types).toContain('  kind?: "cat" | "dog";');
+    expect(types).toContain("export type Pet = NewPet & {\n  id: number;\n};");
+  });
+
+  it("should warn about unsupported operations", async () => {
+    const { warnings } = generateClient(await loadSpec(await writeSpec()));
+    expect(warnings).toEqual([
+      "Skipped HEAD /pets/{petId}: method not supported",
+    ]);
+  });
+
+  it("should map security schemes to auth strategies", () => {
+    const { files } = generateClient({
+      openapi: "3.1.0",
+      security: [{ oauth: ["read"] }],
+      paths: {},
+      components: {
+        securitySchemes: {
+          basic: { type: "http", scheme: "basic" },
+          oauth: {
+            type: "oauth2",
+            flows: {
+              clientCredentials: { tokenUrl: "https://auth.example.com/token" },
+            },
+          },
+          session: { type: "apiKey", in: "cookie", name: "sid" },
+        },
+      },
+    });
+    const client = files.find((file) => file.path === "client.ts")!.content;
+
+    expect(client).toContain("export class ApiClient {");
+    expect(client).toContain(
+      "  basic?: { username: string; password: string };",
+    );
+    expect(client).toContain(
+      'basic: security.basic\n      ? basicAuth(security.basic)\n      : bearerAuth({ prefix: "Basic " }),',
+    );
+    expect(client).toContain(
+      '          tokenUrl: "https://auth.example.com/token",\n          ...security.oauth,',
+    );
+    expect(client).toContain('authStrategy: this.auth["oauth"],');
+    expect(client).not.toContain("session");
+  });
+
+  it("should reject specs that are not OpenAPI 3.x", async () => {
+    const specPath = path.join(dir, "swagger.json");
+    await fs.writeFile(specPath, JSON.stringify({ swagger: "2.0" }));
+
+    await expect(loadSpec(specPath)).rejects.toThrow(
+      "is not an OpenAPI document",
+    );
+  });
+
+  it("should generate a working client from the CLI", async () => {
+    const out = path.join(dir, "api");
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    await generateCommand().parseAsync(
+      [
+        "--spec",
+        await writeSpec(),
+        "--out",
+        out,
+        "--import-path",
+        path.resolve(__dirname, "../src"),
+      ],
+      { from: "user" },
+    );
+    log.mockRestore();
+    warn.mockRestore();
+
+    const { PetStoreClient, BASE_URL } = await import(
+      path.join(out, "index.ts")
+    );
+    expect(BASE_URL).toBe("https://eu.pets.example.com/v1");
+
+    const client = new PetStoreClient({
+      baseURL: "https://example.com",
+      security: { api_key: "key-1" },
+    });
+    client.api.setAuthToken("token-1");
+    mock.onGet("/pets").reply(200, [{ id: 1, name: "Rex" }]);
+    mock.onPost("/pets").reply(201, { id: 2, name: "Tom" });
+    mock.onGet("/pets/a%2Fb").reply(200, { id: 3, name: "Kit" });
+    mock.onDelete("/pets/3").reply(204);
+
+    const list = await client.listPets({ query: { limit: 5 } });
+    await client.createPet({ body: { name: "Tom" } });
+    await client.getPetsByPetId({ params: { petId: "a/b" } });
+    await client.deletePet({
+      params: { petId: "3" },
+      headers: { "X-Reason": "adopted" },
+    });
+
+    expect(list.data).toEqual([{ id: 1, name: "Rex" }]);
+    expect(mock.history.get[0].params).toEqual({ limit: 5 });
+    expect(mock.history.get[0].headers?.["X-Api-Key"]).toBeUndefined();
+    expect(mock.history.post[0].headers?.["X-Api-Key"]).toBe("key-1");
+    expect(JSON.parse(mock.history.post[0].data)).toEqual({ name: "Tom" });
+    expect(mock.history.get[1].headers?.Authorization).toBe("Bearer token-1");
+    expect(mock.history.delete[0].headers?.["X-Reason"]).toBe("adopted");
+  });
+});
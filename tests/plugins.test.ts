@@ -0,0 +1,181 @@
+import { AxiosApi } from "../src/wrapper";
+import { ApiError, HttpError } from "../src/errors";
+import { definePlugin, Plugin } from "../src/plugins";
+import { createMockApi } from "../src/testing";
+
+declare module "../src/plugins" {
+  interface PluginOptions {
+    label: { name: string };
+  }
+}
+
+describe("plugins", () => {
+  let api: AxiosApi;
+  let mock: ReturnType<typeof createMockApi>;
+
+  beforeEach(() => {
+    api = new AxiosApi({ baseURL: "https://api.example.com" });
+    mock = createMockApi(api);
+    mock.onGet("/users").reply(200, [{ id: 1 }]);
+    mock.onGet("/fail").reply(500, { message: "Boom" });
+  });
+
+  it("runs request and response hooks in order with per-request options", async () => {
+    const calls: string[] = [];
+    const label = definePlugin<{ name: string }>({
+      name: "label",
+      onRequest: (config, context) => {
+        calls.push(`label:request ${context.method} ${context.url}`);
+        config.headers.set("X-Label", context.options?.name ?? "none");
+      },
+      onResponse: (response, context) => {
+        calls.push(`label:response ${context.options?.name}`);
+        return { ...response, data: { items: response.data } };
+      },
+    });
+    api.use(label);
+    api.use({
+      name: "second",
+      onRequest: () => void calls.push("second:request"),
+      onResponse: (response) => {
+        calls.push(`second:response ${JSON.stringify(response.data)}`);
+      },
+    });
+
+    const response = await api.get("/users", {
+      pluginOptions: { label: { name: "list" } },
+    });
+
+    expect(response.data).toEqual({ items: [{ id: 1 }] });
+    expect(calls).toEqual([
+      "label:request GET /users",
+      "second:request",
+      "label:response list",
+      'second:response {"items":[{"id":1}]}',
+    ]);
+    mock.expectRequest("GET", "/users").withHeaders({ "X-Label": "list" });
+  });
+
+  it("wraps requests in a Koa-style middleware chain", async () => {
+    const order: string[] = [];
+    const outer: Plugin = {
+      name: "outer",
+      middleware: async (context, next) => {
+        order.push("outer:before");
+        const response = await next();
+        order.push("outer:after");
+        return response;
+      },
+    };
+    const fallback: Plugin = {
+      name: "fallback",
+      middleware: async (context, next) => {
+        order.push("fallback:before");
+        try {
+          return await next();
+        } catch (error) {
+          // Middleware receives ApiErrors and may recover from them
+          expect(error).toBeInstanceOf(HttpError);
+          return { success: true, data: [], statusCode: 200 };
+        }
+      },
+    };
+    api.use(outer);
+    api.use(fallback);
+
+    const response = await api.get("/fail");
+
+    expect(response.data).toEqual([]);
+    expect(order).toEqual(["outer:before", "fallback:before", "outer:after"]);
+  });
+
+  it("calls onError once per failed request and onRetry before each retry", async () => {
+    const retrying = new AxiosApi({
+      baseURL: "https://api.example.com",
+      retry: { maxAttempts: 3, baseDelay: 1, jitter: false },
+      globalErrorHandler: jest.fn(),
+    });
+    createMockApi(retrying).onGet("/fail").reply(503);
+    const onError = jest.fn();
+    const onRetry = jest.fn();
+    retrying.use({ name: "observer", onError, onRetry });
+
+    await expect(retrying.get("/fail")).rejects.toBeInstanceOf(ApiError);
+
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[1][0]).toMatchObject({ attempt: 2, delay: 2 });
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toMatchObject({
+      statusCode: 503,
+      attempts: 3,
+    });
+    expect(onError.mock.calls[0][1]).toMatchObject({
+      method: "GET",
+      url: "/fail",
+    });
+  });
+
+  it("removes plugins and rejects duplicate names", async () => {
+    const onRequest = jest.fn();
+    const remove = api.use({ name: "counter", onRequest });
+
+    await api.get("/users");
+    remove();
+    await api.get("/users");
+    expect(onRequest).toHaveBeenCalledTimes(1);
+
+    api.use({ name: "counter", onRequest });
+    expect(() => api.use({ name: "counter" })).toThrow(
+      'A plugin named "counter" is already installed',
+    );
+    api.removePlugin("counter");
+    await api.get("/users");
+    expect(onRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the plugins a request started with until it settles", async () => {
+    mock.onGet("/slow").delay(30).reply(200, "ok");
+    const calls: string[] = [];
+    const removed = {
+      name: "removed",
+      hooks: 0,
+      onRequest() {
+        this.hooks++;
+      },
+      onResponse() {
+        this.hooks++;
+        calls.push("removed:response");
+      },
+    };
+    api.use(removed);
+
+    const pending = api.get("/slow");
+    await new Promise((r) => setTimeout(r, 10));
+    api.removePlugin("removed");
+    api.use({
+      name: "added",
+      onResponse: () => void calls.push("added:response"),
+    });
+    await pending;
+
+    expect(calls).toEqual(["removed:response"]);
+    expect(removed.hooks).toBe(2);
+  });
+
+  it("runs the legacy interceptors before configured plugins", async () => {
+    const order: string[] = [];
+    const configured = new AxiosApi({
+      baseURL: "https://api.example.com",
+      requestInterceptor: (config) => {
+        order.push("requestInterceptor");
+        return config as any;
+      },
+      plugins: [{ name: "first", onRequest: () => void order.push("first") }],
+    });
+    createMockApi(configured).onGet("/users").reply(200);
+
+    await configured.get("/users");
+
+    expect(order).toEqual(["requestInterceptor", "first"]);
+  });
+});
@@ -0,0 +1,125 @@
+import { AxiosApi } from "../src/wrapper";
+import { CancelledError, TimeoutError } from "../src/errors";
+import { createMockApi, MockApi } from "../src/testing";
+import type { RateLimitConfig } from "../src/rateLimit";
+
+describe("rate limiting", () => {
+  let api: AxiosApi;
+  let mock: MockApi;
+  let sent: { path: string; at: number }[];
+  let startedAt: number;
+
+  const setup = (rateLimit: RateLimitConfig) => {
+    api = new AxiosApi({ baseURL: "https://api.example.com", rateLimit });
+    mock = createMockApi(api);
+    sent = [];
+    startedAt = Date.now();
+    mock.onAny("/*").reply((request) => {
+      sent.push({ path: request.url, at: Date.now() - startedAt });
+      return [200, "ok"];
+    });
+  };
+
+  it("spaces out bursts with a token bucket", async () => {
+    setup({ limits: [{ limit: 2, interval: 200 }] });
+
+    await Promise.all([1, 2, 3, 4].map((id) => api.get(`/users/${id}`)));
+
+    const times = sent.map((request) => request.at);
+    expect(times[1]).toBeLessThan(90);
+    expect(times[2]).toBeGreaterThanOrEqual(90);
+    expect(times[3]).toBeGreaterThanOrEqual(190);
+  });
+
+  it("limits matching routes with a sliding window", async () => {
+    setup({
+      limits: [
+        {
+          match: "/search/*",
+          limit: 1,
+          interval: 150,
+          strategy: "sliding-window",
+        },
+        { match: "other.example.com", limit: 1, interval: 10000 },
+      ],
+    });
+
+    await Promise.all([
+      api.get("/search/a"),
+      api.get("/search/b"),
+      api.get("/users"),
+      api.get("/users"),
+    ]);
+
+    const at = Object.fromEntries(sent.map((r) => [r.path, r.at]));
+    expect(at["/users"]).toBeLessThan(100);
+    expect(at["/search/b"] - at["/search/a"]).toBeGreaterThanOrEqual(140);
+  });
+
+  it("runs queued requests by priority under maxConcurrent", async () => {
+    setup({ maxConcurrent: 1 });
+
+    await Promise.all([
+      api.get("/first"),
+      api.get("/low", { priority: -1 }),
+      api.get("/normal"),
+      api.get("/high", { priority: 10 }),
+      api.get("/normal-2"),
+    ]);
+
+    expect(sent.map((request) => request.path)).toEqual([
+      "/first",
+      "/high",
+      "/normal",
+      "/normal-2",
+      "/low",
+    ]);
+  });
+
+  it("pauses a host on Retry-After and X-RateLimit-Remaining headers", async () => {
+    setup({ limits: [{ limit: 100, interval: 1000 }] });
+    mock.onGet("/throttled").reply(
+      429,
+      { message: "Slow down" },
+      {
+        "Retry-After": "0.15",
+      },
+    );
+    mock.onGet("/last").reply((request) => {
+      sent.push({ path: request.url, at: Date.now() - startedAt });
+      return [
+        200,
+        "ok",
+        { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": "0.15" },
+      ];
+    });
+
+    await expect(api.get("/throttled")).rejects.toThrow("Slow down");
+    const pausedAt = Date.now() - startedAt;
+    await api.get("/users");
+    await api.get("/last");
+    await api.get("/users");
+
+    expect(sent[0].at - pausedAt).toBeGreaterThanOrEqual(140);
+    expect(sent[2].at - sent[1].at).toBeGreaterThanOrEqual(140);
+  });
+
+  it("honors cancellation and timeouts while queued", async () => {
+    setup({ maxConcurrent: 1 });
+    mock.onGet("/slow").delay(200).reply(200, "slow");
+
+    const slow = api.get("/slow");
+    const controller = new AbortController();
+    const cancelled = api.get("/users", { signal: controller.signal });
+    const timedOut = api.get("/users", { timeout: 50 });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+    await expect(timedOut).rejects.toBeInstanceOf(TimeoutError);
+    await expect(slow).resolves.toMatchObject({ data: "slow" });
+    expect(sent).toEqual([]);
+
+    // Freed slots are reused
+    await expect(api.get("/users")).resolves.toMatchObject({ data: "ok" });
+  });
+});
@@ -0,0 +1,106 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import axios from "axios";
+import chalk from "chalk";
+import MockAdapter from "axios-mock-adapter";
+import { methodCommands, requestCommand } from "../src/commands/request";
+
+describe("request command", () => {
+  let mock: MockAdapter;
+  let output: string[];
+  let errors: string[];
+
+  beforeEach(() => {
+    chalk.level = 0;
+    mock = new MockAdapter(axios);
+    output = [];
+    errors = [];
+    jest.spyOn(console, "log").mockImplementation((line) => output.push(line));
+    jest
+      .spyOn(console, "error")
+      .mockImplementation((line) => errors.push(line));
+  });
+
+  afterEach(() => {
+    mock.restore();
+    jest.restoreAllMocks();
+    process.exitCode = undefined;
+  });
+
+  const run = (command: ReturnType<typeof requestCommand>, args: string[]) =>
+    command.parseAsync([...args, "--no-prompt"], { from: "user" });
+
+  const get = () => methodCommands().find((c) => c.name() === "get")!;
+
+  it("should print status, headers and the JSON body", async () => {
+    mock
+      .onGet("/users")
+      .reply(200, [{ id: 1, active: true }], {
+        "content-type": "application/json",
+      });
+
+    await run(get(), ["/users", "--base-url", "https://example.com"]);
+
+    expect(output[0]).toBe("GET https://example.com/users");
+    expect(output[1]).toMatch(
+      /^200 OK \d+ ms\ncontent-type: application\/json\n\n/,
+    );
+    expect(output[1]).toContain('"active": true');
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("should send headers, query params, auth token and body", async () => {
+    mock.onPost("/users").reply(201, { id: 2 });
+
+    await run(requestCommand(), [
+      "post",
+      "/users",
+      "-H",
+      "X-Trace: abc",
+      "-q",
+      "page=2",
+      "--auth-token",
+      "secret",
+      "--data",
+      '{"name":"Ada"}',
+    ]);
+
+    const request = mock.history.post[0];
+    expect(request.headers?.["X-Trace"]).toBe("abc");
+    expect(request.headers?.Authorization).toBe("Bearer secret");
+    expect(request.params).toEqual({ page: "2" });
+    expect(JSON.parse(request.data)).toEqual({ name: "Ada" });
+    expect(output[1]).toMatch(/^201 Created/);
+  });
+
+  it("should read the body from a file", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "better-axios-cli-"));
+    const file = path.join(dir, "body.json");
+    await fs.writeFile(file, '{"name":"Grace"}');
+    mock.onPut("/users/1").reply(200, {});
+
+    await run(requestCommand(), ["PUT", "/users/1", "-d", `@${file}`]);
+    await fs.rm(dir, { recursive: true, force: true });
+
+    expect(JSON.parse(mock.history.put[0].data)).toEqual({ name: "Grace" });
+  });
+
+  it("should print error responses and set a failing exit code", async () => {
+    mock.onGet("/missing").reply(404, { message: "Not found" });
+
+    await run(get(), ["/missing"]);
+
+    expect(output[1]).toMatch(/^404 Not Found/);
+    expect(output[1]).toContain('"message": "Not found"');
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("should fail on missing values when prompting is disabled", async () => {
+    await run(get(), []);
+
+    expect(errors).toEqual(["✖ Missing URL"]);
+    expect(process.exitCode).toBe(1);
+    expect(mock.history.get.length).toBe(0);
+  });
+});
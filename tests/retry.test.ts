@@ -0,0 +1,163 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { AxiosApi, ApiError } from "../src/wrapper";
+import {
+  computeRetryDelay,
+  parseRetryAfter,
+  DEFAULT_RETRY_CONFIG,
+} from "../src/retry";
+
+describe("AxiosApi retry policy", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("should not retry when no retry policy is configured", async () => {
+    const api = new AxiosApi({ baseURL: "https://example.com" });
+    mock.onGet("/flaky").reply(503);
+
+    await expect(api.get("/flaky")).rejects.toMatchObject({
+      statusCode: 503,
+      attempts: 1,
+    });
+    expect(mock.history.get.length).toBe(1);
+  });
+
+  it("should retry on configured status codes until success", async () => {
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      retry: { maxAttempts: 3, baseDelay: 1 },
+    });
+    mock
+      .onGet("/flaky")
+      .replyOnce(503)
+      .onGet("/flaky")
+      .replyOnce(502)
+      .onGet("/flaky")
+      .replyOnce(200, { ok: true });
+
+    const response = await api.get("/flaky");
+    expect(response.data).toEqual({ ok: true });
+    expect(mock.history.get.length).toBe(3);
+  });
+
+  it("should retry network errors and timeouts", async () => {
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      retry: { baseDelay: 1 },
+    });
+    mock
+      .onGet("/unstable")
+      .networkErrorOnce()
+      .onGet("/unstable")
+      .timeoutOnce()
+      .onGet("/unstable")
+      .replyOnce(200, { ok: true });
+
+    const response = await api.get("/unstable");
+    expect(response.statusCode).toBe(200);
+    expect(mock.history.get.length).toBe(3);
+  });
+
+  it("should not retry status codes outside retryOn", async () => {
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      retry: { baseDelay: 1 },
+    });
+    mock.onGet("/missing").reply(404, { message: "Not found" });
+
+    await expect(api.get("/missing")).rejects.toMatchObject({
+      statusCode: 404,
+      attempts: 1,
+    });
+  });
+
+  it("should fire error handlers once after the final attempt", async () => {
+    const globalErrorHandler = jest.fn();
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      retry: { maxAttempts: 4, baseDelay: 1 },
+      globalErrorHandler,
+    });
+    mock.onGet("/down").reply(500, { message: "Server error" });
+
+    try {
+      await api.get("/down");
+    } catch (error) {
+      expect((error as ApiError).attempts).toBe(4);
+    }
+    expect(mock.history.get.length).toBe(4);
+    expect(globalErrorHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should allow per-request overrides", async () => {
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      retry: { baseDelay: 1 },
+    });
+    mock.onGet("/down").reply(500);
+    mock.onPost("/create").reply(503);
+
+    await expect(api.get("/down", { retry: false })).rejects.toMatchObject({
+      attempts: 1,
+    });
+    await expect(
+      api.post("/create", {}, { retry: { methods: ["POST"], maxAttempts: 2 } }),
+    ).rejects.toMatchObject({ attempts: 2 });
+  });
+
+  it("should not retry non-idempotent methods by default", async () => {
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      retry: { baseDelay: 1 },
+    });
+    mock.onPost("/create").reply(503);
+
+    await expect(api.post("/create", {})).rejects.toMatchObject({
+      attempts: 1,
+    });
+  });
+});
+
+describe("retry helpers", () => {
+  it("should parse Retry-After seconds and HTTP dates", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    expect(parseRetryAfter("2", now)).toBe(2000);
+    expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:05 GMT", now)).toBe(5000);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+  });
+
+  it("should prefer Retry-After over exponential backoff", () => {
+    const error = new axios.AxiosError("Too many", "ERR_BAD_RESPONSE");
+    error.response = {
+      status: 429,
+      headers: { "retry-after": "1" },
+    } as any;
+
+    expect(computeRetryDelay(error, 1, DEFAULT_RETRY_CONFIG)).toBe(1000);
+    expect(
+      computeRetryDelay(error, 1, { ...DEFAULT_RETRY_CONFIG, maxDelay: 500 }),
+    ).toBe(500);
+  });
+
+  it("should grow exponentially within full jitter bounds", () => {
+    const config = { ...DEFAULT_RETRY_CONFIG, baseDelay: 100, maxDelay: 1000 };
+    for (let attempt = 1; attempt <= 6; attempt++) {
+      const delay = computeRetryDelay(new Error("boom"), attempt, config);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(
+        Math.min(1000, 100 * 2 ** (attempt - 1)),
+      );
+    }
+    expect(
+      computeRetryDelay(new Error("boom"), 3, { ...config, jitter: false }),
+    ).toBe(400);
+  });
+});
@@ -0,0 +1,84 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { AxiosApi, ApiResult } from "../src/wrapper";
+
+describe("AxiosApi safe mode", () => {
+  let mock: MockAdapter;
+  let api: AxiosApi;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    api = new AxiosApi({ baseURL: "https://example.com" });
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("should return ok results for successful requests", async () => {
+    mock.onGet("/users/1").reply(200, { id: 1, name: "Ada" });
+
+    const result = await api.safe.get<{ id: number; name: string }>("/users/1");
+
+    expect(result).toEqual({
+      ok: true,
+      data: { id: 1, name: "Ada" },
+      response: {
+        data: { id: 1, name: "Ada" },
+        success: true,
+        statusCode: 200,
+        message: undefined,
+      },
+    });
+    if (result.ok) {
+      // Narrowed to the success branch
+      const name: string = result.data.name;
+      expect(name).toBe("Ada");
+    }
+  });
+
+  it("should return errors instead of throwing", async () => {
+    mock.onPost("/users").reply(422, { message: "Email is taken" });
+
+    const result = await api.safe.post("/users", { email: "a@b.c" });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.statusCode).toBe(422);
+      expect(result.error.message).toBe("Email is taken");
+    }
+  });
+
+  it("should support every HTTP method", async () => {
+    mock.onPut("/items/1").reply(200, { method: "put" });
+    mock.onPatch("/items/1").reply(200, { method: "patch" });
+    mock.onDelete("/items/1").networkError();
+
+    const results: ApiResult[] = [
+      await api.safe.put("/items/1", {}),
+      await api.safe.patch("/items/1", {}),
+      await api.safe.delete("/items/1"),
+    ];
+
+    expect(results.map((r) => r.ok)).toEqual([true, true, false]);
+    expect(mock.history.put[0].data).toBe("{}");
+  });
+
+  it("should still run handlers", async () => {
+    const globalSuccessHandler = jest.fn();
+    const globalErrorHandler = jest.fn();
+    api = new AxiosApi({
+      baseURL: "https://example.com",
+      globalSuccessHandler,
+      globalErrorHandler,
+    });
+    mock.onGet("/ok").reply(200, {});
+    mock.onGet("/fail").reply(500, {});
+
+    await api.safe.get("/ok");
+    await api.safe.get("/fail");
+
+    expect(globalSuccessHandler).toHaveBeenCalledTimes(1);
+    expect(globalErrorHandler).toHaveBeenCalledTimes(1);
+  });
+});
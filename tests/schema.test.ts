@@ -0,0 +1,125 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { AxiosApi } from "../src/wrapper";
+import { ValidationError } from "../src/errors";
+import { Schema, validateSchema } from "../src/schema";
+
+interface User {
+  id: number;
+  name: string;
+}
+
+// Zod-style schema: safeParse returns issues with paths
+const userSchema = {
+  safeParse(data: any) {
+    const issues: { path: (string | number)[]; message: string }[] = [];
+    if (typeof data?.id !== "number") {
+      issues.push({ path: ["id"], message: "Expected number" });
+    }
+    if (typeof data?.name !== "string") {
+      issues.push({ path: ["name"], message: "Required" });
+    }
+    return issues.length
+      ? { success: false as const, error: { issues } }
+      : { success: true as const, data: data as User };
+  },
+};
+
+// Parse-only schema that trims and throws on failure
+const nameSchema: Schema<{ name: string }> = {
+  parse(data: any) {
+    if (typeof data?.name !== "string") {
+      throw { issues: [{ path: [{ key: "name" }], message: "Invalid type" }] };
+    }
+    return { name: data.name.trim() };
+  },
+};
+
+describe("AxiosApi schema validation", () => {
+  let mock: MockAdapter;
+  let api: AxiosApi;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    api = new AxiosApi({ baseURL: "https://example.com" });
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("should validate the response and infer its type", async () => {
+    mock.onGet("/me").reply(200, { id: 1, name: "Ada" });
+
+    const response = await api.get("/me", { schema: userSchema });
+
+    const id: number = response.data.id;
+    // @ts-expect-error name is inferred as a string
+    const invalid: number = response.data.name;
+    expect(id).toBe(1);
+    expect(invalid).toBe("Ada");
+  });
+
+  it("should reject with a ValidationError listing the failing paths", async () => {
+    mock.onGet("/me").reply(200, { id: "1" });
+    const errorHandler = jest.fn();
+
+    const error = await api
+      .get("/me", { schema: userSchema, customErrorHandler: errorHandler })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.code).toBe("VALIDATION_ERROR");
+    expect(error.statusCode).toBe(200);
+    expect(error.issues).toEqual([
+      { path: ["id"], message: "Expected number" },
+      { path: ["name"], message: "Required" },
+    ]);
+    expect(error.message).toBe(
+      "Response validation failed: id: Expected number; name: Required",
+    );
+    expect(errorHandler).toHaveBeenCalledWith(error);
+  });
+
+  it("should return the parsed value from parse-only schemas", async () => {
+    mock.onGet("/name").reply(200, { name: "  Ada  " });
+
+    const response = await api.get("/name", { schema: nameSchema });
+    expect(response.data).toEqual({ name: "Ada" });
+  });
+
+  it("should validate request bodies before sending", async () => {
+    mock.onPost("/users").reply(201, { id: 2, name: "Grace" });
+
+    const error = await api
+      .post("/users", { name: 42 }, { requestSchema: nameSchema })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe("Request validation failed: name: Invalid type");
+    expect(error.issues[0].path).toEqual(["name"]);
+    expect(mock.history.post.length).toBe(0);
+
+    await api.post(
+      "/users",
+      { name: " Grace " },
+      { requestSchema: nameSchema, schema: userSchema },
+    );
+    expect(JSON.parse(mock.history.post[0].data)).toEqual({ name: "Grace" });
+  });
+});
+
+describe("validateSchema", () => {
+  it("should normalize thrown errors without issues", () => {
+    const schema = {
+      parse: () => {
+        throw new Error("Bad data");
+      },
+    };
+
+    expect(validateSchema(schema, {})).toEqual({
+      success: false,
+      issues: [{ path: [], message: "Bad data" }],
+    });
+  });
+});
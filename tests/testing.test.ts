@@ -0,0 +1,113 @@
+import { AxiosApi } from "../src/wrapper";
+import { HttpError, NetworkError, TimeoutError } from "../src/errors";
+import { createMockApi } from "../src/testing";
+
+describe("createMockApi", () => {
+  it("matches routes by method, path pattern, query and body", async () => {
+    const mock = createMockApi({ baseURL: "https://api.example.com" });
+    mock
+      .onGet("/users/:id")
+      .reply((request) => [200, { id: Number(request.params.id) }]);
+    mock.onGet("/users", { query: { page: 2 } }).reply(200, ["page 2"]);
+    mock.onPost("/users").reply(201, { id: 3 }, { Location: "/users/3" });
+    // Later routes take precedence
+    mock.onPost("/users", { body: { role: "admin" } }).reply(403);
+
+    expect((await mock.api.get("/users/7")).data).toEqual({ id: 7 });
+    expect(
+      (await mock.api.get("/users", { params: { page: 2 } })).data,
+    ).toEqual(["page 2"]);
+    expect(
+      (await mock.api.post("/users", { name: "Ada", role: "user" })).statusCode,
+    ).toBe(201);
+    await expect(
+      mock.api.post("/users", { role: "admin" }, { skipGlobalHandlers: true }),
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it("replies with sequences and 404s for unmatched requests", async () => {
+    const mock = createMockApi();
+    mock
+      .onGet("/status")
+      .replySequence([
+        [503, { message: "Starting" }],
+        { status: 200, body: { ready: true } },
+      ]);
+
+    await expect(mock.api.get("/status")).rejects.toBeInstanceOf(HttpError);
+    expect((await mock.api.get("/status")).data).toEqual({ ready: true });
+    expect((await mock.api.get("/status")).data).toEqual({ ready: true });
+    await expect(mock.api.get("/missing")).rejects.toMatchObject({
+      statusCode: 404,
+      message: "No mock route matches GET /missing",
+    });
+  });
+
+  it("simulates network errors, timeouts and delays", async () => {
+    const mock = createMockApi({ timeout: 50 });
+    mock.onGet("/offline").networkError();
+    mock.onGet("/hang").timeout();
+    mock.onGet("/slow").delay(100).reply(200);
+    mock.onGet("/fast").delay(10).reply(200, "ok");
+
+    await expect(mock.api.get("/offline")).rejects.toBeInstanceOf(NetworkError);
+    await expect(mock.api.get("/hang")).rejects.toBeInstanceOf(TimeoutError);
+    await expect(mock.api.get("/slow")).rejects.toBeInstanceOf(TimeoutError);
+
+    const startedAt = Date.now();
+    expect((await mock.api.get("/fast")).data).toBe("ok");
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(9);
+  });
+
+  it("asserts on the request history", async () => {
+    const mock = createMockApi();
+    mock.onAny("*").reply(200);
+
+    mock.expectNoRequests();
+    await mock.api.post(
+      "/users",
+      { name: "Ada" },
+      { headers: { "X-Trace": "abc" } },
+    );
+    await mock.api.get("/users", { params: { q: "ada" } });
+
+    mock
+      .expectRequest("POST", "/users")
+      .withBody({ name: "Ada" })
+      .withHeaders({ "X-Trace": "abc" })
+      .times(1);
+    mock.expectRequest("GET", "/users").withQuery({ q: "ada" });
+    expect(() =>
+      mock.expectRequest("POST", "/users").withBody({ name: "Grace" }),
+    ).toThrow(
+      /Expected POST \/users with body {"name":"Grace"}\nRequests made:\n {2}POST \/users {"name":"Ada"}/,
+    );
+    expect(() => mock.expectRequest("DELETE", "/users/:id")).toThrow(
+      "Expected DELETE /users/:id",
+    );
+
+    mock.resetHistory();
+    mock.expectNoRequests();
+  });
+
+  it("binds to an existing instance and restores its adapter", async () => {
+    const api = new AxiosApi({ baseURL: "https://api.example.com" });
+    const original = api.getAxiosInstance().defaults.adapter;
+    const mock = createMockApi(api);
+    mock.onGet("/me").reply(200, { id: 1 });
+
+    // Other instances are unaffected
+    expect(createMockApi().api.getAxiosInstance().defaults.adapter).not.toBe(
+      api.getAxiosInstance().defaults.adapter,
+    );
+    expect((await api.get("/me")).data).toEqual({ id: 1 });
+    expect(mock.history[0]).toMatchObject({
+      method: "GET",
+      url: "/me",
+      fullUrl: "https://api.example.com/me",
+    });
+
+    mock.restore();
+    expect(api.getAxiosInstance().defaults.adapter).toBe(original);
+  });
+});
@@ -0,0 +1,180 @@
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AxiosApi } from "../src/wrapper";
+import {
+  FileTokenStore,
+  MemoryTokenStore,
+  TokenStore,
+  WebStorageTokenStore,
+} from "../src/tokenStore";
+
+class FakeStorage {
+  items = new Map<string, string>();
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+describe("Token stores", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "better-axios-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should keep tokens in memory", () => {
+    const store = new MemoryTokenStore("initial");
+    expect(store.get()).toBe("initial");
+    store.set("next");
+    expect(store.get()).toBe("next");
+    store.remove();
+    expect(store.get()).toBeNull();
+  });
+
+  it("should persist tokens to a file", async () => {
+    const file = path.join(tmpDir, "nested", "token");
+    const store = new FileTokenStore(file);
+
+    expect(await store.get()).toBeNull();
+    await store.set("abc123");
+    expect(fs.readFileSync(file, "utf8")).toBe("abc123");
+    expect(await new FileTokenStore(file).get()).toBe("abc123");
+    await store.remove();
+    await store.remove();
+    expect(await store.get()).toBeNull();
+  });
+
+  it("should persist tokens in web storage", () => {
+    const storage = new FakeStorage();
+    const store = new WebStorageTokenStore(storage, "auth");
+
+    store.set("abc123");
+    expect(storage.getItem("auth")).toBe("abc123");
+    expect(store.get()).toBe("abc123");
+    store.remove();
+    expect(store.get()).toBeNull();
+  });
+
+  it("should fail clearly when web storage is unavailable", () => {
+    expect(() => new WebStorageTokenStore()).toThrow(
+      "Web Storage is not available",
+    );
+  });
+});
+
+describe("AxiosApi with a token store", () => {
+  let mock: MockAdapter;
+
+  beforeEach(() => {
+    mock = new MockAdapter(axios);
+    mock
+      .onGet("/me")
+      .reply((config) => [
+        200,
+        { authorization: config.headers?.Authorization },
+      ]);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it("should write through the store and survive a restart", async () => {
+    const storage = new FakeStorage();
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      tokenStore: new WebStorageTokenStore(storage),
+    });
+    await api.setAuthToken("abc123");
+
+    const restarted = new AxiosApi({
+      baseURL: "https://example.com",
+      tokenStore: new WebStorageTokenStore(storage),
+    });
+    expect(restarted.getAuthToken()).toBe("abc123");
+
+    await restarted.removeAuthToken();
+    expect(storage.items.size).toBe(0);
+  });
+
+  it("should load async stores before the first request", async () => {
+    const store: TokenStore = {
+      get: () =>
+        new Promise((resolve) => setTimeout(() => resolve("stored"), 10)),
+      set: jest.fn(),
+      remove: jest.fn(),
+    };
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      tokenStore: store,
+    });
+
+    const response = await api.get("/me");
+    expect(response.data.authorization).toBe("Bearer stored");
+    expect(api.getAuthToken()).toBe("stored");
+  });
+
+  it("should report store errors without failing token updates", async () => {
+    const onTokenStoreError = jest.fn();
+    const diskFull = new Error("ENOSPC: no space left on device");
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      tokenStore: {
+        get: () => Promise.reject(new Error("EACCES: permission denied")),
+        set: () => Promise.reject(diskFull),
+        remove: () => {
+          throw diskFull;
+        },
+      },
+      auth: { refresh: async () => "refreshed" },
+      onTokenStoreError,
+    });
+
+    await expect(api.setAuthToken("abc")).resolves.toBeUndefined();
+    expect(api.getAuthToken()).toBe("abc");
+    await expect(api.refreshAuthToken()).resolves.toBe("refreshed");
+    expect(api.getAuthToken()).toBe("refreshed");
+    await expect(api.removeAuthToken()).resolves.toBeUndefined();
+    expect(api.getAuthToken()).toBeNull();
+
+    expect(
+      onTokenStoreError.mock.calls.map(([error]) => error.message),
+    ).toEqual([
+      "EACCES: permission denied",
+      "ENOSPC: no space left on device",
+      "ENOSPC: no space left on device",
+      "ENOSPC: no space left on device",
+    ]);
+  });
+
+  it("should prefer a token set while the store is loading", async () => {
+    const store: TokenStore = {
+      get: () =>
+        new Promise((resolve) => setTimeout(() => resolve("stored"), 10)),
+      set: jest.fn(),
+      remove: jest.fn(),
+    };
+    const api = new AxiosApi({
+      baseURL: "https://example.com",
+      tokenStore: store,
+    });
+    await api.setAuthToken("fresh");
+
+    const response = await api.get("/me");
+    expect(response.data.authorization).toBe("Bearer fresh");
+    expect(store.set).toHaveBeenCalledWith("fresh");
+  });
+});